@@ -94,13 +94,13 @@ export default class ViteLoadRequest {
      * '\0meteor/meteor' -> 'meteor/meteor'
      * '\0meteor:react' -> 'meteor/modules/node_modules/react'
      */
-    protected static getStubId(viteId: string) {
+    public static getStubId(viteId: string) {
         const importPath = viteId.slice(1);
         if (importPath.startsWith('meteor/')) {
             return importPath;
         }
         
-        // Todo: Try to cache the meteor/modules package - reading from it can be expensive for larger projects
+        // Served from the meteor/modules package through its NpmBundleIndex
         return importPath.replace('meteor:', 'meteor/modules/node_modules/');
     }
 
@@ -240,7 +240,12 @@ export type FileRequestData = ReturnType<typeof ViteLoadRequest['loadFileData']>
 interface PreContextRequest {
     id: string;
     pluginSettings: ResolvedPluginSettings;
-    server: ViteDevServer;
+    
+    /**
+     * Vite dev server handling the request.
+     * Not available for production builds or when inspecting packages through the CLI.
+     */
+    server?: ViteDevServer;
 }
 
 export interface RequestContext extends PreContextRequest {
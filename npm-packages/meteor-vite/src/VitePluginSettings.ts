@@ -1,3 +1,4 @@
+import type { IncomingHttpHeaders } from 'http';
 import { OutputOptions } from 'rollup';
 import { ResolvedConfig } from 'vite';
 import { DeepPartial, MakeOptional, type MakeRequired } from './utilities/GenericTypes';
@@ -7,9 +8,43 @@ export interface PluginSettings {
      * Vite client entry into Meteor.
      * Not to be confused with your Meteor mainModule.
      *
+     * Use an object of named entries to build separate apps from the same Meteor project, each loaded for the URL
+     * prefixes configured in {@link PluginSettings.entryRoutes entryRoutes}.
+     *
      * {@link https://github.com/JorgenVatle/meteor-vite#readme}
+     * @example
+     * 'imports/entrypoint/vite.ts'
+     * { app: 'imports/entrypoint/app.ts', admin: 'imports/entrypoint/admin.ts' }
+     */
+    clientEntry: string | Record<string, string>;
+    
+    /**
+     * Map of URL path prefixes to the named client entry that should be loaded for them. The longest matching
+     * prefix wins. Pages that don't match any of the prefixes load the first entry in your clientEntry.
+     * Prefixes match whole path segments, so '/admin' applies to '/admin/users', but not '/administrator'.
+     * Only applies when using named client entries.
+     *
+     * @example
+     * { '/admin': 'admin', '/': 'app' }
      */
-    clientEntry: string;
+    entryRoutes?: Record<string, string>;
+    
+    /**
+     * Vite entry for server-side rendering. Built in SSR mode alongside your client bundle and loaded by the Meteor
+     * server, where its `render()` export is called for every page request.
+     * Imports for Meteor packages (`meteor/*`) are left as-is for Meteor to resolve on the server.
+     *
+     * In development, pages are rendered by the Vite worker through `ssrLoadModule()`, where Meteor packages are not
+     * available.
+     *
+     * @example
+     * // imports/entrypoint/ssr.ts
+     * export async function render({ url }: ServerRenderContext): Promise<ServerRenderResult> {
+     *     const app = createSSRApp(App);
+     *     return { body: `<div id="app">${await renderToString(app)}</div>` };
+     * }
+     */
+    serverEntry?: string;
     
     /**
      * Skips bundling the provided npm packages if they are already provided by Meteor.
@@ -62,6 +97,34 @@ export interface PluginSettings {
         disabled?: boolean;
     };
     
+    /**
+     * Settings for the Meteor package parser used to create Vite stubs for your Meteor packages.
+     */
+    parser?: {
+        /**
+         * Number of worker threads to use for parsing Meteor packages.
+         * Set to 0 to parse packages on the Vite server's main thread.
+         *
+         * @default Number of CPU cores minus one
+         */
+        threads?: number;
+    };
+    
+    /**
+     * Generate TypeScript declarations for the Meteor packages you import through Vite.
+     * Writes a `declare module 'meteor/<package>'` file per package with all its exports typed as `any`.
+     * Packages that already provide declarations through `zodern:types` are skipped.
+     *
+     * Make sure the output directory is included in your tsconfig.
+     */
+    typegen?: {
+        /**
+         * Directory to write the package declarations to.
+         * @example 'types/meteor'
+         */
+        outDir: string;
+    };
+    
     /**
      * Internal configuration injected by the vite:bundler Meteor package. Specifies some important source paths
      * needed to assist Vite in building your Meteor project.
@@ -137,6 +200,43 @@ export interface PluginSettings {
      * Only change this if you are sure you know what you're doing.
      */
     chunkFileNames?: OutputOptions['chunkFileNames'];
+    
+    /**
+     * Fail the Meteor production build if any of the chunks from the Vite client bundle exceed these limits.
+     * Budgets set in `meteor.vite.sizeBudgets` in your package.json take precedence.
+     */
+    sizeBudgets?: SizeBudgets;
+}
+
+export interface SizeBudgets {
+    /**
+     * Size to compare against the budgets.
+     * @default 'raw'
+     */
+    compression?: 'raw' | 'gzip' | 'brotli';
+    
+    /**
+     * Limits in bytes for entry chunks, keyed by a glob pattern matched against the entry's chunk name or file name.
+     * Every matching limit applies.
+     * @example
+     * { '*': 250_000, 'admin': 500_000 }
+     */
+    entries?: Record<string, number>;
+    
+    /**
+     * Limits in bytes for all chunks, including entries, keyed by a glob pattern matched against the chunk's name
+     * or file name. Every matching limit applies.
+     * @example
+     * { '*': 100_000, 'vendor-*.js': 400_000 }
+     */
+    chunks?: Record<string, number>;
+    
+    /**
+     * Limit in bytes for the npm packages bundled by Vite that Meteor also ships to the client through your
+     * Meteor client mainModule or Atmosphere packages. Compared against the size of the packages' modules within the
+     * Vite bundle before compression.
+     */
+    duplicates?: number;
 }
 
 export type StubValidationSettings = PluginSettings['stubValidation'];
@@ -195,6 +295,42 @@ export type ProjectJson = {
              * Might be useful if the automatically generated file path is inaccessible in your operating system
              */
             tempBuildDir?: string;
+            
+            /**
+             * Transpiler used to convert the Vite production bundle into a format Meteor can link.
+             * Babel is slower, but respects your project's Babel config.
+             * @default 'esbuild'
+             */
+            transpiler?: 'esbuild' | 'babel';
+            
+            /**
+             * Seconds to wait for the intermediary Meteor build to complete before aborting the production build.
+             * Set to 0 to disable the timeout.
+             * @default 1800
+             */
+            meteorBuildTimeout?: number;
+            
+            /**
+             * Serve the Vite dev server through the Meteor server's own port under `/__vite/`, including HMR.
+             * Useful when the Vite dev server's port can't be reached from the browser, like in remote containers
+             * or behind a proxy.
+             * @default false
+             */
+            devServerProxy?: boolean;
+            
+            /**
+             * Path to an HTML file, relative to your project root, to display in place of the default splash screen
+             * while the Vite dev server is starting up.
+             * Include an element with the `vite-status-phase` class to display the dev server's current status, and
+             * one with the `vite-status-text` class for log messages and errors.
+             */
+            splashScreen?: string;
+            
+            /**
+             * Fail the production build if the Vite client bundle exceeds these limits.
+             * Takes precedence over the `sizeBudgets` option in your Vite config.
+             */
+            sizeBudgets?: SizeBudgets;
         }
     }
 }
@@ -207,6 +343,30 @@ export type ResolvedPluginSettings = MakeRequired<
     'tempDir'
 >;
 
+/**
+ * Module built from the {@link PluginSettings.serverEntry serverEntry} file.
+ */
+export interface ServerEntryModule {
+    render(context: ServerRenderContext): ServerRenderResult | void | Promise<ServerRenderResult | void>;
+}
+
+export interface ServerRenderContext {
+    /**
+     * Path and query string of the page being requested.
+     * @example '/posts/1?comments=true'
+     */
+    url: string;
+    headers: IncomingHttpHeaders;
+}
+
+/**
+ * HTML to add to the page served by Meteor.
+ */
+export interface ServerRenderResult {
+    head?: string;
+    body?: string;
+}
+
 /**
  * A resolved Vite config, after our workers has merged it with default settings and overrides from the Meteor instance.
  */
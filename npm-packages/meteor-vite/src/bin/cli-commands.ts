@@ -0,0 +1,150 @@
+import FS from 'fs/promises';
+import pc from 'picocolors';
+import { resolveConfig } from 'vite';
+import PackageJSON from '../../package.json';
+import { MeteorViteError } from '../error/MeteorViteError';
+import MeteorPackage from '../meteor/package/components/MeteorPackage';
+import ModuleExport from '../meteor/package/components/ModuleExport';
+import PackageExport from '../meteor/package/components/PackageExport';
+import { stubTemplate } from '../meteor/package/StubTemplate';
+import { meteorWorker } from '../plugin/Meteor';
+import ViteLoadRequest from '../ViteLoadRequest';
+import type { ProjectJson, ResolvedMeteorViteConfig } from '../VitePluginSettings';
+
+const USAGE = `Usage: meteor-vite inspect <packageId>[/subpath]`;
+
+const commands: Record<string, (...args: string[]) => Promise<void>> = {
+    /**
+     * Print how the provided Meteor package will be stubbed by Vite.
+     * Runs offline against the Meteor build in the current project's .meteor/local directory.
+     *
+     * @example
+     * meteor-vite inspect ostrio:cookies
+     * meteor-vite inspect meteor/ostrio:cookies/some-module
+     */
+    async inspect(packageId?: string) {
+        if (!packageId) {
+            throw new CliError('Missing package ID to inspect!', { subtitle: USAGE });
+        }
+        
+        const id = packageId.startsWith('meteor/') ? packageId : `meteor/${packageId}`;
+        const packageJson: ProjectJson = JSON.parse(await FS.readFile('package.json', 'utf-8'));
+        const { meteor: pluginSettings } = await resolveConfig({
+            configFile: packageJson?.meteor?.vite?.configFile
+                // Fallback for deprecated config format
+                ?? packageJson?.meteor?.viteConfig,
+            plugins: [
+                meteorWorker({
+                    meteorStubs: {
+                        packageJson,
+                    },
+                }),
+            ],
+        }, 'serve') as ResolvedMeteorViteConfig;
+        
+        if (!pluginSettings) {
+            throw new CliError('Unable to resolve Meteor-Vite settings from your Vite config!');
+        }
+        
+        const request = await ViteLoadRequest.prepareContext({ id: `\0${id}`, pluginSettings });
+        const meteorPackage = await MeteorPackage.parse({
+            filePath: request.context.file.sourcePath,
+            fileContent: request.context.file.content,
+        }, {
+            ignoreDuplicateExportsInPackages: pluginSettings.stubValidation.ignoreDuplicateExportsInPackages,
+        });
+        
+        const importPath = request.requestedModulePath;
+        const submodule = meteorPackage.getModule({ importPath });
+        const { conflicts } = meteorPackage.serialize({ importPath });
+        const template = stubTemplate({
+            requestId: request.context.id,
+            stubValidation: pluginSettings.stubValidation,
+            meteorPackage,
+            importPath,
+        });
+        
+        printSection('Package', [
+            ['Package ID', pc.yellow(meteorPackage.packageId)],
+            ['Requested module', submodule?.fullImportPath || pc.dim('none')],
+            ['mainModule', request.mainModulePath || meteorPackage.mainModulePath || pc.dim('none')],
+            ['Lazy loaded', request.isLazyLoaded ? pc.yellow('yes') : 'no'],
+            ['Source file', request.context.file.sourcePath],
+            ['Isopack manifest', request.context.manifest ? request.context.file.manifestPath : pc.dim('not found')],
+            ['Parse time', meteorPackage.meta.timeSpent],
+        ]);
+        
+        printSection('Exports', [
+            ...(importPath ? [] : meteorPackage.packageScopeExports).map((entry) => {
+                return ['package-scope', `${entry.key} ${pc.dim(`from Package['${entry.packageName}']`)}`] as const;
+            }),
+            ...(submodule?.exports || []).map((entry) => {
+                const details = [
+                    entry.from && `from '${entry.from}'`,
+                    entry.key !== entry.name && `name: ${entry.name}`,
+                    entry.valueType,
+                ].filter(Boolean).join(', ');
+                
+                return [entry.stubType, `${entry.key || entry.name} ${pc.dim(details)}`] as const;
+            }),
+        ]);
+        
+        printSection('Conflicts', conflicts.map(({ meta: { conflict } }) => {
+            return [
+                pc.red(conflict.thisExport.key),
+                `${describeExport(conflict.thisExport)} conflicts with ${describeExport(conflict.conflictedWith)}`,
+            ];
+        }));
+        
+        console.log(`\n${pc.bold(pc.cyan('[Stub]'))}\n${template.trim()}`);
+    },
+}
+
+function printSection(title: string, lines: (readonly [label: string, value: string])[]) {
+    console.log(`\n${pc.bold(pc.cyan(`[${title}]`))}`);
+    
+    if (!lines.length) {
+        console.log(`  ${pc.dim('none')}`);
+    }
+    
+    lines.forEach(([label, value]) => {
+        console.log(`  ${pc.dim(label.padEnd(18))} ${value}`);
+    });
+}
+
+function describeExport(entry: ModuleExport | PackageExport) {
+    if (entry instanceof ModuleExport) {
+        return `${entry.stubType} in ${entry.parentModule.modulePath}`;
+    }
+    return `package-scope export from Package['${entry.packageName}']`;
+}
+
+export class CliError extends MeteorViteError {}
+
+/**
+ * Run the provided CLI arguments, printing any errors to the console.
+ * Kept separate from the `meteor-vite` bin script so the CLI can be run without exiting the current process.
+ *
+ * @returns Exit code for the process.
+ * @example
+ * runCli(['inspect', 'ostrio:cookies'])
+ */
+export async function runCli([command, ...args]: string[]): Promise<number> {
+    const runCommand = Object.hasOwn(commands, command) ? commands[command] : undefined;
+    
+    if (!runCommand) {
+        console.log(`meteor-vite v${PackageJSON.version}\n\n${USAGE}`);
+        return command ? 1 : 0;
+    }
+    
+    try {
+        await runCommand(...args);
+        return 0;
+    } catch (error) {
+        if (error instanceof MeteorViteError) {
+            await error.beautify();
+        }
+        console.error(error);
+        return 1;
+    }
+}
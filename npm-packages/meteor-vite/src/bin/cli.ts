@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runCli } from './cli-commands';
+
+runCli(process.argv.slice(2)).then((exitCode) => process.exit(exitCode));
@@ -0,0 +1,33 @@
+import { parentPort } from 'worker_threads';
+import { parseMeteorPackage } from '../meteor/parser/Parser';
+import type { ParserWorkerRequest, ParserWorkerResponse } from '../meteor/parser/ParserPool';
+
+if (!parentPort) {
+    throw new Error('Meteor-Vite: The parser worker needs to be started as a worker thread!');
+}
+
+const port = parentPort;
+
+port.on('message', async ({ taskId, options }: ParserWorkerRequest) => {
+    try {
+        const { result, timeSpent } = await parseMeteorPackage(options);
+        
+        // Meteor installs are class instances, so we convert the result to plain objects before passing it back
+        // to the main thread.
+        port.postMessage({
+            taskId,
+            result: {
+                result: JSON.parse(JSON.stringify(result)),
+                timeSpent,
+            },
+        } satisfies ParserWorkerResponse);
+    } catch (error) {
+        port.postMessage({
+            taskId,
+            error: {
+                message: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
+            },
+        } satisfies ParserWorkerResponse);
+    }
+})
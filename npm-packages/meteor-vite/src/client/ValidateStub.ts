@@ -1,43 +1,84 @@
 import PackageJson from '../../package.json';
+import type { ExportValueType } from '../meteor/parser/Parser';
 import type { StubValidationSettings } from '../VitePluginSettings';
 
 
 /**
- * Validate that the provided stub export key maps to a working export.
+ * Validate that the provided stub export key maps to a working export, of the type determined by the parser where known.
  * This is quite important we do. If vite:bundler doesn't properly parse a given package, its exports will just
  * silently fail and remain undefined, without any clear warning or indication as to what's going on.
  *
- * TODO: Attempt to emit a warning directly to the server console from the client. (development environment only)
- * TODO: Import, validate, and re-export wildcard re-exports.
- * TODO: Read expected 'typeof' value from package exports at the parser and compare against the expected type
- * rather than just an undefined check.
+ * Wildcard re-exports (`export * from './foo'`) are validated through the namespaces imported by the stub.
+ * In development, failures are also forwarded to the Vite dev server to be printed in the Meteor server console.
  */
-export function validateStub(stubbedPackage: any, { exportKeys, packageName, requestId, warnOnly }: StubValidatorOptions) {
+export function validateStub(
+    stubbedPackage: any,
+    { exportKeys, exportTypes, wildcardReExports, packageName, requestId, warnOnly }: StubValidatorOptions,
+    { wildcardNamespaces = {}, reportUrl }: StubValidatorRuntime = {},
+) {
     console.debug('Meteor-Vite package validation:', {
         packageName,
         stubbedPackage,
         exportKeys,
+        exportTypes,
+        wildcardReExports,
         warnOnly,
     });
     
-    const errors: Error[] = [];
+    const errors: MeteorViteError[] = [];
     
-    exportKeys.forEach((key) => {
-        if (!stubbedPackage) {
-            errors.push(new ImportException(`Was not able to import Meteor package: "${packageName}"`, {
-                requestId: requestId,
-                packageName,
-            }))
-        }
-        if (typeof stubbedPackage[key] === 'undefined') {
-            errors.push(new UndefinedExportException(`Could not import Meteor package into the client: export '${key}' is undefined`, {
-                requestId: requestId,
-                packageName,
-                exportName: key,
-            }))
-        }
+    const validateExports = (source: any, keys: string[], types: StubValidatorOptions['exportTypes'], from?: string) => {
+        const origin = from ? ` (re-exported from '${from}')` : '';
+        
+        keys.forEach((key) => {
+            if (!source) {
+                errors.push(new ImportException(`Was not able to import Meteor package: "${from || packageName}"`, {
+                    requestId: requestId,
+                    packageName,
+                }))
+                return;
+            }
+            if (typeof source[key] === 'undefined') {
+                errors.push(new UndefinedExportException(`Could not import Meteor package into the client: export '${key}'${origin} is undefined`, {
+                    requestId: requestId,
+                    packageName,
+                    exportName: key,
+                }))
+                return;
+            }
+            
+            const expectedType = types?.[key];
+            const actualType = typeof source[key];
+            
+            // Classes are just functions as far as typeof is concerned
+            if (expectedType && actualType !== (expectedType === 'class' ? 'function' : expectedType)) {
+                errors.push(new ExportTypeMismatchException(`Meteor package export '${key}'${origin} has an unexpected type: expected ${expectedType}, got ${actualType}`, {
+                    requestId: requestId,
+                    packageName,
+                    exportName: key,
+                }))
+            }
+        });
+    }
+    
+    validateExports(stubbedPackage, exportKeys, exportTypes);
+    
+    wildcardReExports?.forEach(({ from, exportKeys, exportTypes }) => {
+        validateExports(wildcardNamespaces[from], exportKeys, exportTypes, from);
     });
     
+    if (reportUrl && errors.length) {
+        reportFailures(reportUrl, {
+            packageName,
+            requestId,
+            failures: errors.map((error) => ({
+                type: error.constructor.name,
+                message: error.message,
+                exportName: error.exportName,
+            })),
+        });
+    }
+    
     errors.forEach((error, i) => {
         if (warnOnly) {
             return console.warn(error);
@@ -50,7 +91,25 @@ export function validateStub(stubbedPackage: any, { exportKeys, packageName, req
     
 }
 
+/**
+ * Send validation failures to the Vite dev server.
+ * A plain text body keeps this a simple cross-origin request, so the browser won't send a CORS preflight first.
+ */
+function reportFailures(reportUrl: string, report: StubValidationReport) {
+    fetch(reportUrl, {
+        method: 'POST',
+        mode: 'no-cors',
+        keepalive: true,
+        headers: { 'Content-Type': 'text/plain' },
+        body: JSON.stringify(report),
+    }).catch((error) => {
+        console.debug('Unable to forward stub validation failures to the Vite dev server', error);
+    });
+}
+
 class MeteorViteError extends Error {
+    public readonly exportName?: string;
+    
     constructor(message: string, { packageName, requestId, exportName }: ErrorMetadata) {
         const footerLines = [
             `⚡ Affected package: ${packageName}`,
@@ -66,6 +125,7 @@ class MeteorViteError extends Error {
         ].join('\n')
         
         super(message);
+        this.exportName = exportName;
         this.name = `[meteor-vite] ⚠️ ${this.constructor.name}`
         this.stack += `\n\n${footerLines}`
     }
@@ -73,6 +133,7 @@ class MeteorViteError extends Error {
 
 class ImportException extends MeteorViteError {}
 class UndefinedExportException extends MeteorViteError {}
+class ExportTypeMismatchException extends MeteorViteError {}
 
 type ErrorMetadata = Pick<StubValidatorOptions, 'packageName' | 'requestId'> & { exportName?: string };
 
@@ -85,4 +146,47 @@ export interface StubValidatorOptions extends Pick<StubValidationSettings, 'warn
      * export {}
      */
     exportKeys: string[];
-}
\ No newline at end of file
+    
+    /**
+     * Expected value type for exports where it could be determined by the parser.
+     * @example
+     * { useTracker: 'function', Mongo: 'object' }
+     */
+    exportTypes?: Record<string, ExportValueType>;
+    
+    /**
+     * Wildcard re-exports with the exports expected from their target module.
+     * @example
+     * export * from './foo' // { from: 'meteor/my:package/foo', exportKeys: ['foo'] }
+     */
+    wildcardReExports?: {
+        from: string;
+        exportKeys: string[];
+        exportTypes?: Record<string, ExportValueType>;
+    }[];
+}
+
+export interface StubValidatorRuntime {
+    /**
+     * Namespaces for the stub's wildcard re-exports, keyed by their import path.
+     */
+    wildcardNamespaces?: Record<string, any>;
+    
+    /**
+     * Vite dev server URL to forward validation failures to.
+     */
+    reportUrl?: string;
+}
+
+/**
+ * Validation failures forwarded to the Vite dev server.
+ */
+export interface StubValidationReport {
+    packageName: string;
+    requestId: string;
+    failures: {
+        type: string;
+        message: string;
+        exportName?: string;
+    }[];
+}
@@ -42,7 +42,8 @@ let lastEmittedWarning = Date.now();
 /**
  * Only really gets to this point if the Vite worker times out waiting for Meteor to emit a "client refresh" IPC
  * message.
- * TODO: Forcefully restart Meteor server once the warning is emitted.
+ * The emitted warning is relayed to the Meteor server as a `refreshNeeded` reply, which has Meteor rebuild the client
+ * and reload any connected clients.
  * @param {RefreshNeeded} error
  * @returns {never}
  */
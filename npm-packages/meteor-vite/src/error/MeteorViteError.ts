@@ -6,6 +6,11 @@ import pc from 'picocolors';
 
 const divColor = (text: string) => pc.dim(text);
 
+/**
+ * Errors that have already been formatted. Formatting an error twice would mangle its message.
+ */
+const beautifiedErrors = new WeakSet<MeteorViteError>();
+
 export class MeteorViteError extends Error implements ErrorMetadata {
     public package: ErrorMetadata['package'];
     public context: ErrorMetadata['context'];
@@ -71,6 +76,10 @@ export class MeteorViteError extends Error implements ErrorMetadata {
     }
     
     public async beautify() {
+        if (beautifiedErrors.has(this)) {
+            return;
+        }
+        beautifiedErrors.add(this);
         await this.formatLog();
         
         const moduleId = this.context?.id.replace('meteor/', '') || this.package?.packageId;
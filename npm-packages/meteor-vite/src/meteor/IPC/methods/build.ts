@@ -1,18 +1,52 @@
 import { spawn } from 'child_process';
 import Path from 'path';
-import { RollupOutput } from 'rollup';
-import { build, InlineConfig, resolveConfig } from 'vite';
+import type { OutputAsset, OutputChunk, RollupOutput } from 'rollup';
+import { build, BuildOptions as ViteBuildOptions, InlineConfig, resolveConfig } from 'vite';
+import Zlib from 'zlib';
 import MeteorVitePackage from '../../../../package.json';
 import {
     type ResolvedMeteorViteConfig,
     type ProjectJson,
     type MeteorStubsSettings,
+    type PluginSettings,
 } from '../../../VitePluginSettings';
 import { meteorWorker } from '../../../plugin/Meteor';
+import { getParserCache } from '../../../plugin/MeteorStubs';
+import { MeteorViteError } from '../../../error/MeteorViteError';
+import Logger from '../../../utilities/Logger';
+import { type DuplicateNpmPackage, findDuplicateNpmPackages } from '../../package/DuplicateNpmPackages';
+import ViteLoadRequest from '../../../ViteLoadRequest';
 import CreateIPCInterface, { IPCReply } from '../interface';
 
 type BuildOutput = Awaited<ReturnType<typeof build>>;
 
+/**
+ * Build targets for Meteor client archs that can't use Vite's default target of modern browsers.
+ */
+const ARCH_BUILD_TARGETS: Record<string, BuildTarget> = {
+    // Transpiled further down to ES5 by vite-bundler. We only need to ensure that Vite doesn't leave any syntax
+    // Babel can't handle.
+    'web.browser.legacy': 'es2015',
+    
+    // Cordova apps run in the device's system WebView, which may lag quite a bit behind the user's browser.
+    'web.cordova': ['chrome64', 'safari12'],
+};
+
+/**
+ * Brotli defaults to its maximum quality, which is slow enough to add seconds to builds with larger bundles.
+ * Quality 5 is in line with what servers and CDNs typically use when compressing responses on the fly.
+ */
+const BROTLI_OPTIONS: Zlib.BrotliOptions = {
+    params: {
+        [Zlib.constants.BROTLI_PARAM_QUALITY]: 5,
+    },
+};
+
+/**
+ * Path vite-bundler serves assets from the production bundle under.
+ */
+const BUNDLE_ASSETS_PATH = '/__meteor-vite/';
+
 export default CreateIPCInterface({
     async 'vite.build'(
         reply: Replies,
@@ -32,11 +66,8 @@ export default CreateIPCInterface({
                         outDir,
                         success: true,
                         meteorViteConfig: viteConfig.meteor,
-                        output: result.output.map(o => ({
-                            name: o.name,
-                            type: o.type,
-                            fileName: o.fileName,
-                        })),
+                        output: result.output.map((output) => describeOutput(output, viteConfig.root)),
+                        duplicateNpmPackages: await getDuplicateNpmPackages(buildConfig, viteConfig, result),
                     },
                 }
             })
@@ -86,7 +117,7 @@ export default CreateIPCInterface({
 })
 
 async function prepareConfig(buildConfig: BuildOptions): Promise<ParsedConfig> {
-    const { meteor, packageJson } = buildConfig;
+    const { meteor, packageJson, arch } = buildConfig;
     const configFile = buildConfig.packageJson?.meteor?.vite?.configFile
         // Fallback for deprecated config file format
         ?? buildConfig.packageJson?.meteor?.viteConfig;
@@ -107,26 +138,55 @@ async function prepareConfig(buildConfig: BuildOptions): Promise<ParsedConfig> {
     if (!viteConfig.meteor?.clientEntry) {
         throw new Error(`You need to specify an entrypoint in your Vite config! See: ${MeteorVitePackage.homepage}`);
     }
+    
+    const { clientEntry, serverEntry, entryRoutes = {} } = viteConfig.meteor;
+    const isServer = arch === 'server';
+    
+    for (const [prefix, entryName] of Object.entries(entryRoutes)) {
+        if (typeof clientEntry === 'string' || !(entryName in clientEntry)) {
+            throw new Error(`The entry route for "${prefix}" points to "${entryName}", which is not one of the named entries in your clientEntry config!`);
+        }
+    }
+    
+    if (isServer && !serverEntry) {
+        throw new Error(`Tried to build for the server without a serverEntry in your Vite config!`);
+    }
 
-    const outDir = Path.join(viteConfig.meteor.tempDir, 'bundle');
+    const outDir = Path.join(viteConfig.meteor.tempDir, 'bundle', arch);
     return {
         viteConfig,
         outDir,
         inlineBuildConfig: {
             configFile,
             build: {
-                lib: {
-                    entry: viteConfig.meteor.clientEntry,
-                    formats: ['es'],
+                ...isServer ? {
+                    ssr: serverEntry,
+                } : {
+                    lib: {
+                        entry: clientEntry,
+                        formats: ['es'],
+                    },
                 },
                 rollupOptions: {
                     output: {
-                        entryFileNames: 'meteor-entry.js',
+                        entryFileNames: getEntryFileNames({ isServer, clientEntry }),
                         chunkFileNames: viteConfig.meteor.chunkFileNames ?? '[name]-[hash:12].js',
+                        // Keep sources relative to the project root rather than our temporary build directory
+                        sourcemapPathTransform: (relativeSourcePath, sourcemapPath) => {
+                            const sourcePath = Path.resolve(Path.dirname(sourcemapPath), relativeSourcePath);
+                            return Path.relative(viteConfig.root, sourcePath).split(Path.sep).join('/');
+                        },
                     },
                 },
                 outDir,
                 minify: false,
+                ...arch in ARCH_BUILD_TARGETS && { target: ARCH_BUILD_TARGETS[arch] },
+                // Source maps are handed over to Meteor by the vite-bundler compiler plugin, which takes care of
+                // serving them. So there's no need for Vite to reference them in the bundle.
+                sourcemap: 'hidden',
+            },
+            experimental: {
+                renderBuiltUrl,
             },
             plugins: [
                 meteorWorker({
@@ -140,6 +200,90 @@ async function prepareConfig(buildConfig: BuildOptions): Promise<ParsedConfig> {
     }
 }
 
+function getEntryFileNames({ isServer, clientEntry }: { isServer: boolean, clientEntry: PluginSettings['clientEntry'] }) {
+    if (isServer) {
+        return 'server-entry.js';
+    }
+    
+    // Named entries are prefixed to keep them from colliding with other files in the user's Meteor project.
+    if (typeof clientEntry !== 'string') {
+        return 'meteor-entry-[name].js';
+    }
+    
+    return 'meteor-entry.js';
+}
+
+/**
+ * Resolve asset URLs at runtime from Meteor's ROOT_URL, or the CDN URL provided by vite-bundler. This way the same
+ * bundle works regardless of the path prefix or CDN the app is deployed behind.
+ * Stylesheets are added to the Meteor client alongside the assets they reference, so URLs within them are kept
+ * relative to the stylesheet and resolve against wherever Meteor serves the stylesheet from.
+ */
+export function renderBuiltUrl(fileName: string, { type, hostType }: { type: 'asset' | 'public', hostType: 'js' | 'css' | 'html' }) {
+    if (type !== 'asset') {
+        return;
+    }
+    
+    if (hostType === 'css') {
+        return { relative: true };
+    }
+    
+    const assetPath = `${BUNDLE_ASSETS_PATH}${fileName}`;
+    
+    if (hostType !== 'js') {
+        return assetPath;
+    }
+    
+    const baseUrl = `(__meteor_runtime_config__.VITE_ASSETS_URL || __meteor_runtime_config__.ROOT_URL || '')`;
+    return { runtime: `${baseUrl}.replace(/\\/+$/, '') + ${JSON.stringify(assetPath)}` };
+}
+
+/**
+ * Sizes and contents of an output file from the Vite build, for vite-bundler's build manifest and size report.
+ * Source maps only have their raw size recorded, as they're never served compressed to users.
+ */
+function describeOutput(output: OutputChunk | OutputAsset, root: string): BuildOutputFile {
+    const content = output.type === 'chunk' ? output.code : output.source;
+    const isSourceMap = output.fileName.endsWith('.map');
+    const moduleIds = output.type === 'chunk' ? Object.keys(output.modules) : [];
+    
+    return {
+        name: output.name,
+        type: output.type,
+        fileName: output.fileName,
+        isEntry: output.type === 'chunk' && output.isEntry,
+        size: Buffer.byteLength(content),
+        gzipSize: isSourceMap ? undefined : Zlib.gzipSync(content).length,
+        brotliSize: isSourceMap ? undefined : Zlib.brotliCompressSync(content, BROTLI_OPTIONS).length,
+        modules: moduleIds
+            .filter((id) => !ViteLoadRequest.isStubRequest(id))
+            .map((id) => Path.isAbsolute(id) ? Path.relative(root, id).split(Path.sep).join('/') : id),
+        meteorStubs: moduleIds
+            .filter((id) => ViteLoadRequest.isStubRequest(id))
+            .map((id) => ViteLoadRequest.getStubId(id)),
+    }
+}
+
+/**
+ * Failing to detect duplicate packages is not worth failing the build over, as it's only used for reporting.
+ */
+async function getDuplicateNpmPackages({ arch, meteor }: BuildOptions, viteConfig: ResolvedMeteorViteConfig, result: RollupOutput) {
+    if (arch === 'server') {
+        return [];
+    }
+    
+    try {
+        return await findDuplicateNpmPackages({
+            chunks: result.output.filter((output): output is OutputChunk => output.type === 'chunk'),
+            modulesPath: Path.join(meteor.packagePath, 'modules.js'),
+            cache: viteConfig.meteor && getParserCache(viteConfig.meteor),
+        });
+    } catch (error) {
+        Logger.warn(new MeteorViteError(`Unable to check for npm packages bundled by both Meteor and Vite`, { cause: error }));
+        return [];
+    }
+}
+
 function validateOutput(rollupResult?: BuildOutput | RollupOutput): asserts rollupResult is RollupOutput {
     if (!rollupResult) {
         throw new Error('Received no result from Rollup!');
@@ -157,6 +301,12 @@ function validateOutput(rollupResult?: BuildOutput | RollupOutput): asserts roll
 export interface BuildOptions {
     meteor: MeteorStubsSettings['meteor'];
     packageJson: ProjectJson;
+    
+    /**
+     * Meteor client architecture to build for. Use 'server' to build the SSR bundle for your serverEntry.
+     * @example 'web.browser', 'web.browser.legacy', 'web.cordova', 'server'
+     */
+    arch: string;
 }
 
 type Replies = IPCReply<{
@@ -166,13 +316,46 @@ type Replies = IPCReply<{
                      success: true;
                      outDir: string;
                      meteorViteConfig: any,
-                     output?: {name?: string, type: string, fileName: string}[]
+                     output?: BuildOutputFile[]
+                     
+                     /**
+                      * npm packages bundled by Vite that Meteor also ships to the client through its modules.js
+                      * package. Always empty for the server bundle.
+                      */
+                     duplicateNpmPackages: DuplicateNpmPackage[];
                  } | {
                      success: false;
                  };
     }
 }>
 
+export interface BuildOutputFile {
+    name?: string;
+    type: 'chunk' | 'asset';
+    fileName: string;
+    isEntry: boolean;
+    
+    /**
+     * Size in bytes, before and after compression.
+     */
+    size: number;
+    gzipSize?: number;
+    brotliSize?: number;
+    
+    /**
+     * Modules bundled into the chunk, relative to the Vite project root.
+     */
+    modules: string[];
+    
+    /**
+     * Meteor package stubs bundled into the chunk.
+     * @example ['meteor/meteor', 'meteor/mongo', 'meteor/modules/node_modules/react']
+     */
+    meteorStubs: string[];
+}
+
+type BuildTarget = NonNullable<ViteBuildOptions['target']>;
+
 type ParsedConfig = {
     viteConfig: ResolvedMeteorViteConfig;
     inlineBuildConfig: InlineConfig;
@@ -1,10 +1,22 @@
 import FS from 'fs/promises';
 import Path from 'path';
+import pc from 'picocolors';
+import { stripVTControlCharacters } from 'util';
 import { createServer, resolveConfig, type ResolvedServerUrls, ViteDevServer } from 'vite';
+import type { StubValidationReport } from '../../../client/ValidateStub';
+import { MeteorViteError } from '../../../error/MeteorViteError';
 import { meteorWorker } from '../../../plugin/Meteor';
 import Logger from '../../../utilities/Logger';
 import { RefreshNeeded } from '../../../ViteLoadRequest';
-import { type ProjectJson, ResolvedMeteorViteConfig } from '../../../VitePluginSettings';
+import {
+    type PluginSettings,
+    type ProjectJson,
+    ResolvedMeteorViteConfig,
+    type ServerEntryModule,
+    type ServerRenderContext,
+    type ServerRenderResult,
+} from '../../../VitePluginSettings';
+import { STUB_VALIDATION_ENDPOINT } from '../../package/StubTemplate';
 import CreateIPCInterface, { IPCReply } from '../interface';
 import MeteorEvents, { MeteorIPCMessage } from '../MeteorEvents';
 
@@ -12,6 +24,16 @@ let server: ViteDevServer & { config: ResolvedMeteorViteConfig };
 let viteConfig: ResolvedMeteorViteConfig;
 let listening = false;
 
+/**
+ * Path the Vite dev server is served under when proxied through the Meteor server.
+ */
+const DEV_SERVER_PROXY_PREFIX = '/__vite/';
+
+/**
+ * Largest stub validation report we accept from clients, in bytes.
+ */
+const MAX_STUB_VALIDATION_REPORT_SIZE = 1024 * 1024;
+
 export type Replies = IPCReply<{
     kind: 'viteConfig',
     data: ViteRuntimeConfig;
@@ -21,13 +43,44 @@ export type Replies = IPCReply<{
 } | {
     kind: 'workerConfig';
     data: WorkerRuntimeConfig & { listening: boolean };
+} | {
+    kind: 'workerStatus';
+    data: WorkerStatus;
+} | {
+    kind: 'renderResult';
+    data: {
+        requestId: string;
+        
+        /**
+         * Omitted if rendering failed, leaving the page to be rendered by the client.
+         */
+        result?: ServerRenderResult;
+    };
 }>
 
+/**
+ * Lifecycle phase of the Vite dev server, displayed on the splash screen while waiting for Vite to load.
+ */
+export type WorkerStatus = {
+    phase: 'starting' | 'optimizing' | 'ready' | 'refreshNeeded';
+} | {
+    phase: 'error';
+    message: string;
+    stack?: string;
+};
+
 export type ViteRuntimeConfig = {
     host?: string | boolean;
     port?: number;
     resolvedUrls?: ResolvedServerUrls,
-    entryFile?: string
+    entryFile?: PluginSettings['clientEntry'];
+    entryRoutes?: PluginSettings['entryRoutes'];
+    serverEntry?: string;
+    
+    /**
+     * Path the Meteor server proxies the Vite dev server under, if enabled with `meteor.vite.devServerProxy`.
+     */
+    proxyPrefix?: string;
     backgroundWorker?: WorkerRuntimeConfig;
 }
 export interface DevServerOptions {
@@ -44,9 +97,23 @@ export default CreateIPCInterface({
         MeteorEvents.ingest(data);
     },
     
-    // todo: Add reply for triggering a server restart
+    /**
+     * Render a page requested from the Meteor server using the serverEntry. The request ID is passed back with the
+     * result so the Meteor server can match it with the pending request.
+     */
+    async 'vite.server.render'(replyInterface: Replies, { requestId, context }: { requestId: string, context: ServerRenderContext }) {
+        replyInterface({
+            kind: 'renderResult',
+            data: {
+                requestId,
+                result: await renderServerEntry(context),
+            },
+        });
+    },
+    
     async 'vite.server.start'(replyInterface: Replies, { packageJson, meteorParentPid }: DevServerOptions) {
         const backgroundWorker = await BackgroundWorker.init(meteorParentPid);
+        const setStatus = (status: WorkerStatus) => replyInterface({ kind: 'workerStatus', data: status });
         
         if (backgroundWorker.isRunning) {
             replyInterface({
@@ -57,27 +124,37 @@ export default CreateIPCInterface({
             return process.exit(0);
         }
         
-        const server = await createViteServer({
-            packageJson,
-            refreshNeeded: () => {
-                replyInterface({
-                    kind: 'refreshNeeded',
-                    data: {},
-                })
-            },
-            buildStart: () => {
-                sendViteConfig(replyInterface).catch((error) => {
-                    Logger.error(error);
-                    process.exit(1);
-                });
-            },
-        });
-        
-        await server.listen()
-        listening = true
-        server.printUrls();
-        await sendViteConfig(replyInterface);
-        return;
+        try {
+            setStatus({ phase: 'starting' });
+            const server = await createViteServer({
+                packageJson,
+                refreshNeeded: () => {
+                    setStatus({ phase: 'refreshNeeded' });
+                    replyInterface({
+                        kind: 'refreshNeeded',
+                        data: {},
+                    })
+                },
+                buildStart: () => {
+                    sendViteConfig(replyInterface).catch((error) => {
+                        Logger.error(error);
+                        process.exit(1);
+                    });
+                },
+            });
+            
+            // Vite runs its initial dependency optimization before it starts listening for requests.
+            setStatus({ phase: 'optimizing' });
+            await server.listen()
+            listening = true
+            server.printUrls();
+            await sendViteConfig(replyInterface);
+            setStatus({ phase: 'ready' });
+            await loadServerEntry();
+        } catch (error) {
+            setStatus(await formatErrorStatus(error));
+            throw error;
+        }
     },
 
     async 'vite.server.stop'() {
@@ -112,6 +189,8 @@ async function createViteServer({
     
     server = await createServer({
         configFile: viteConfig.configFile,
+        // Vite needs to prefix all its URLs, including its HMR WebSocket, with the path we're proxied under.
+        base: packageJson?.meteor?.vite?.devServerProxy ? DEV_SERVER_PROXY_PREFIX : undefined,
         plugins: [
             meteorWorker({
                meteorStubs: {
@@ -137,6 +216,42 @@ async function createViteServer({
                           next();
                         })
                     })
+                    // Our middlewares run before Vite strips its base path from the request URL.
+                    const stubValidationPath = Path.posix.join(server.config.base, STUB_VALIDATION_ENDPOINT);
+                    server.middlewares.use(stubValidationPath, (req, res) => {
+                        if (req.method !== 'POST') {
+                            res.statusCode = 405;
+                            res.setHeader('Allow', 'POST');
+                            return res.end();
+                        }
+                        
+                        let body = '';
+                        req.on('data', (chunk) => {
+                            body += chunk.toString();
+                            
+                            if (body.length > MAX_STUB_VALIDATION_REPORT_SIZE) {
+                                res.statusCode = 413;
+                                res.end();
+                                req.destroy();
+                            }
+                        });
+                        req.on('end', () => {
+                            try {
+                                const report = JSON.parse(body);
+                                
+                                if (!isStubValidationReport(report)) {
+                                    throw new TypeError('Stub validation report is missing required fields');
+                                }
+                                
+                                StubValidationError.report(report);
+                                res.statusCode = 204;
+                            } catch (error) {
+                                Logger.debug('Received a malformed stub validation report', { body, error });
+                                res.statusCode = 400;
+                            }
+                            res.end();
+                        })
+                    })
                 }
             }
         ],
@@ -152,6 +267,70 @@ async function createViteServer({
     return server;
 }
 
+/**
+ * Load the serverEntry into the Vite server's module graph through Vite's SSR module loader.
+ * Vite keeps the loaded module cached until it or any of its dependencies change.
+ * Errors are only logged, the client is still perfectly usable without server-side rendering.
+ */
+async function loadServerEntry() {
+    const serverEntry = server?.config.meteor?.serverEntry;
+    
+    if (!serverEntry) {
+        return;
+    }
+    
+    try {
+        return await server.ssrLoadModule(serverEntry) as ServerEntryModule;
+    } catch (error) {
+        logServerEntryError('Unable to load your serverEntry', error);
+    }
+}
+
+/**
+ * Render a page requested from the Meteor server using the serverEntry.
+ * Resolves with nothing if rendering failed, leaving the page to be rendered by the client.
+ */
+async function renderServerEntry(context: ServerRenderContext): Promise<ServerRenderResult | undefined> {
+    const entry = await loadServerEntry();
+    
+    if (!entry) {
+        return;
+    }
+    
+    try {
+        return await entry.render(context) || {};
+    } catch (error) {
+        logServerEntryError(`Failed to render ${context.url} on the server`, error);
+    }
+}
+
+function logServerEntryError(message: string, error: unknown) {
+    if (error instanceof Error) {
+        server.ssrFixStacktrace(error);
+    }
+    Logger.warn(new MeteorViteError(message, {
+        subtitle: server.config.meteor?.serverEntry,
+        cause: error,
+    }));
+}
+
+/**
+ * Beautify the provided error for display on the splash screen.
+ */
+async function formatErrorStatus(error: unknown): Promise<WorkerStatus> {
+    const viteError = error instanceof MeteorViteError
+                      ? error
+                      : new MeteorViteError('Vite dev server failed to start', { cause: error });
+    
+    await viteError.beautify();
+    
+    return {
+        phase: 'error',
+        message: stripVTControlCharacters(viteError.message),
+        stack: viteError.stack && stripVTControlCharacters(viteError.stack),
+    };
+}
+
 async function sendViteConfig(reply: Replies) {
     if (!server) {
         Logger.debug('Tried to get config from Vite server before it has been created!');
@@ -165,6 +344,9 @@ async function sendViteConfig(reply: Replies) {
         host: config.server?.host,
         port: config.server?.port,
         entryFile: config.meteor?.clientEntry,
+        entryRoutes: config.meteor?.entryRoutes,
+        serverEntry: config.meteor?.serverEntry,
+        proxyPrefix: config.base === DEV_SERVER_PROXY_PREFIX ? DEV_SERVER_PROXY_PREFIX : undefined,
         resolvedUrls: server.resolvedUrls!,
     });
     reply({
@@ -278,4 +460,69 @@ class BackgroundWorker {
             viteConfig,
         })
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Stub validation failures forwarded from the client.
+ */
+class StubValidationError extends MeteorViteError {
+    /**
+     * Packages we've already printed validation failures for.
+     * A package's stub is validated on every page load, so we only want to print its failures once.
+     */
+    protected static readonly reportedPackages = new Set<string>();
+    
+    constructor(public readonly report: StubValidationReport) {
+        super(`Stub validation failed for ${pc.yellow(report.packageName)} in the browser`, {
+            subtitle: `Vite request ID: ${report.requestId}`,
+            package: { packageId: report.packageName },
+        });
+    }
+    
+    public static report(report: StubValidationReport) {
+        if (this.reportedPackages.has(report.packageName)) {
+            return;
+        }
+        
+        this.reportedPackages.add(report.packageName);
+        Logger.warn(new this(report));
+    }
+    
+    protected async formatLog() {
+        const failures = Array.isArray(this.report.failures) ? this.report.failures : [];
+        failures.forEach((failure) => {
+            if (!failure || typeof failure !== 'object') {
+                return;
+            }
+            const { type, message, exportName } = failure;
+            this.addSection(exportName ? `Export: ${exportName}` : 'Import', `${type}: ${message}`);
+        });
+    }
+}
+
+/**
+ * Check that a stub validation report received from a client has the shape we expect before logging it.
+ * The endpoint is reachable by anything that can reach the dev server, so we can't trust what we receive.
+ */
+export function isStubValidationReport(report: unknown): report is StubValidationReport {
+    if (!report || typeof report !== 'object') {
+        return false;
+    }
+    
+    const { packageName, requestId, failures } = report as Partial<StubValidationReport>;
+    
+    if (typeof packageName !== 'string' || typeof requestId !== 'string' || !Array.isArray(failures)) {
+        return false;
+    }
+    
+    return failures.every((failure) => {
+        if (!failure || typeof failure !== 'object') {
+            return false;
+        }
+        
+        const { type, message, exportName } = failure;
+        return typeof type === 'string'
+            && typeof message === 'string'
+            && (exportName === undefined || typeof exportName === 'string');
+    });
+}
@@ -0,0 +1,159 @@
+import FS from 'fs/promises';
+import Path from 'path';
+import Logger from '../../utilities/Logger';
+import type MeteorPackage from './components/MeteorPackage';
+
+/**
+ * Export keys that can be declared without quoting them. Keys that would need to be quoted, like 'foo-bar', are
+ * left out, as string literal export names are only supported by recent TypeScript versions.
+ */
+const IDENTIFIER_NAME = /^[\p{ID_Start}$_][\p{ID_Continue}$\u200C\u200D]*$/u;
+
+/**
+ * Words that can't be used as variable names within a module.
+ */
+const RESERVED_WORDS = new Set([
+    'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'delete', 'do',
+    'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements', 'import',
+    'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public', 'return',
+    'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+]);
+
+/**
+ * Creates an ambient TypeScript module declaration for the provided Meteor package module.
+ * All exports are typed as `any`, we only know their names, not their types.
+ *
+ * @example
+ * declare module 'meteor/ostrio:cookies' {
+ *     export const Cookies: any;
+ * }
+ */
+export function declarationTemplate({ moduleId, meteorPackage, importPath }: {
+    moduleId: string;
+    meteorPackage: MeteorPackage;
+    importPath?: string;
+}) {
+    const { exportKeys, wildcardReExports } = meteorPackage.serialize({ importPath });
+    const keys = new Set(exportKeys);
+    const reExports: string[] = [];
+    
+    // Wildcards within the same package are flattened since their modules may never be declared on their own
+    wildcardReExports.forEach(({ exportPath, ...wildcard }) => {
+        const wildcardExports = meteorPackage.getWildcardExports(wildcard);
+        
+        if (!wildcardExports) {
+            reExports.push(`export * from '${exportPath}';`);
+            return;
+        }
+        
+        wildcardExports.exportKeys.forEach((key) => keys.add(key));
+    });
+    
+    const exports = [...keys].filter((key) => IDENTIFIER_NAME.test(key)).map((key) => {
+        if (key === 'default') {
+            return `const _default: any;\n    export default _default;`;
+        }
+        // Reserved words can't be declared as variables, but they're still valid export names.
+        if (RESERVED_WORDS.has(key)) {
+            return `const _${key}: any;\n    export { _${key} as ${key} };`;
+        }
+        return `export const ${key}: any;`;
+    });
+    
+    return [
+        `declare module '${moduleId}' {`,
+        ...[...reExports, ...exports].map((line) => `    ${line}`),
+        '}',
+    ].join('\n');
+}
+
+/**
+ * Writes a declaration file for every Meteor package Vite creates stubs for.
+ * Each package gets a single file that accumulates declarations for every module requested from it.
+ *
+ * Packages that already ship their own declarations through zodern:types are skipped to not override their
+ * (far more accurate) types.
+ */
+export class PackageDeclarations {
+    /**
+     * Declarations mapped by package and module ID.
+     * @example
+     * 'meteor/ostrio:cookies' -> { 'meteor/ostrio:cookies' -> 'declare module ...' }
+     */
+    protected readonly packages = new Map<string, Map<string, string>>();
+    
+    /**
+     * Latest pending write for each package's declaration file.
+     * Writes for the same package are chained so an older snapshot of the package's declarations can't finish after,
+     * and overwrite, a newer one.
+     */
+    protected readonly writes = new Map<string, Promise<void>>();
+    protected zodernPackages?: Promise<Set<string>>;
+    
+    constructor(
+        public readonly outDir: string,
+        protected readonly zodernTypesPath = Path.join(process.env.METEOR_LOCAL_DIR || Path.join('.meteor', 'local'), 'types', 'packages.d.ts'),
+    ) {}
+    
+    public async write({ moduleId, packageId, meteorPackage, importPath }: {
+        moduleId: string;
+        packageId: string;
+        meteorPackage: MeteorPackage;
+        importPath?: string;
+    }) {
+        const zodernPackages = await this.getZodernPackages();
+        
+        if (zodernPackages.has(packageId)) {
+            return;
+        }
+        
+        const modules = this.packages.get(packageId) || this.packages.set(packageId, new Map()).get(packageId)!;
+        modules.set(moduleId, declarationTemplate({ moduleId, meteorPackage, importPath }));
+        
+        const filePath = Path.join(this.outDir, `${packageId.replace(/^meteor\//, '').replace(':', '_')}.d.ts`);
+        const previousWrite = this.writes.get(packageId)?.catch(() => {});
+        const write = Promise.resolve(previousWrite).then(async () => {
+            const content = [
+                '// Generated by meteor-vite from the exports of the Meteor package. Do not edit.',
+                ...modules.values(),
+            ].join('\n\n');
+            
+            await FS.mkdir(this.outDir, { recursive: true });
+            await FS.writeFile(filePath, `${content}\n`);
+        });
+        
+        this.writes.set(packageId, write);
+        await write;
+        
+        return filePath;
+    }
+    
+    protected getZodernPackages() {
+        return this.zodernPackages ??= this.readZodernDeclarations(this.zodernTypesPath, new Set());
+    }
+    
+    /**
+     * Collect the Meteor packages declared by zodern:types.
+     * Its packages.d.ts references a declaration file for each package that ships types.
+     */
+    protected async readZodernDeclarations(filePath: string, packages: Set<string>) {
+        const content = await FS.readFile(filePath, 'utf-8').catch(() => '');
+        const references: string[] = [];
+        
+        for (const [, packageId] of content.matchAll(/declare\s+module\s+['"](meteor\/[^'"/]+)/g)) {
+            packages.add(packageId);
+        }
+        
+        for (const [, reference] of content.matchAll(/\/\/\/\s*<reference\s+path=['"]([^'"]+)['"]/g)) {
+            references.push(Path.resolve(Path.dirname(filePath), reference));
+        }
+        
+        await Promise.all(references.map((reference) => this.readZodernDeclarations(reference, packages)));
+        
+        if (filePath === this.zodernTypesPath && packages.size) {
+            Logger.debug(`Skipping type declarations for packages typed by zodern:types`, [...packages]);
+        }
+        
+        return packages;
+    }
+}
@@ -0,0 +1,119 @@
+import FS from 'fs';
+import { parseMeteorPackage } from '../parser/Parser';
+import type { ParserCache } from '../parser/ParserCache';
+import { NpmBundleIndex } from './NpmBundleIndex';
+
+/**
+ * Find npm packages that are bundled by Vite while also being shipped to the client through Meteor's `modules.js`
+ * package. This happens when a package is imported both through your Vite clientEntry and your Meteor client
+ * mainModule or Atmosphere packages. Such packages would be a good fit for the `externalizeNpmPackages` option.
+ *
+ * The `modules.js` package comes from vite-bundler's intermediary Meteor build, where relative imports are stripped
+ * from the client mainModule. So npm packages only reached through your own modules imported by the mainModule are
+ * not detected, only those imported directly by the mainModule or by Atmosphere packages.
+ */
+export async function findDuplicateNpmPackages({ chunks, modulesPath, cache }: {
+    chunks: Pick<BundledChunk, 'fileName' | 'modules'>[],
+    
+    /**
+     * Path to Meteor's built `modules.js` package for the arch being bundled.
+     */
+    modulesPath: string,
+    
+    /**
+     * Parser cache to reuse parse results for the `modules.js` package from.
+     */
+    cache?: ParserCache,
+}): Promise<DuplicateNpmPackage[]> {
+    if (!FS.existsSync(modulesPath)) {
+        return [];
+    }
+    
+    const parse = { filePath: modulesPath };
+    const { result } = await (cache ? cache.parse(parse) : parseMeteorPackage(parse));
+    const index = NpmBundleIndex.for(result);
+    const vitePackages = new Map<string, DuplicateNpmPackage>();
+    
+    for (const chunk of chunks) {
+        for (const [moduleId, { renderedLength }] of Object.entries(chunk.modules)) {
+            const name = getNpmPackageName(moduleId);
+            
+            if (!name) {
+                continue;
+            }
+            
+            const npmPackage = vitePackages.get(name) || { name, size: 0, chunks: [] };
+            npmPackage.size += renderedLength;
+            
+            if (!npmPackage.chunks.includes(chunk.fileName)) {
+                npmPackage.chunks.push(chunk.fileName);
+            }
+            
+            vitePackages.set(name, npmPackage);
+        }
+    }
+    
+    return [...vitePackages.values()]
+        .filter(({ name }) => isBundledByMeteor(index, name))
+        .sort((a, b) => b.size - a.size);
+}
+
+/**
+ * Check whether Meteor's `modules.js` bundle contains the provided npm package.
+ * Scoped packages may resolve to the install for their scope directory (e.g. @babel), which is only a match if the
+ * scope directory contains modules for the package itself.
+ */
+function isBundledByMeteor(index: NpmBundleIndex, name: string) {
+    const npmModule = index.resolve(name);
+    
+    if (!npmModule) {
+        return false;
+    }
+    
+    if (!npmModule.importPath) {
+        return true;
+    }
+    
+    const packageDir = `${npmModule.importPath}/`;
+    return Object.keys(npmModule.install.modules).some((path) => path.startsWith(packageDir));
+}
+
+/**
+ * Get the name of the npm package a module from the Vite module graph belongs to.
+ * @example
+ * '/app/node_modules/react-dom/cjs/react-dom.production.min.js' // 'react-dom'
+ * '/app/node_modules/@babel/runtime/helpers/typeof.js' // '@babel/runtime'
+ * '/app/imports/ui/App.vue' // undefined
+ */
+export function getNpmPackageName(moduleId: string) {
+    const [, path] = moduleId.replace(/\\/g, '/').match(/.*\/node_modules\/(.+)$/) || [];
+    
+    if (!path) {
+        return;
+    }
+    
+    const segments = path.split('/');
+    const name = path.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+    
+    // Strip query strings Vite and Rollup plugins might append to module IDs.
+    return name.replace(/\?.*$/, '');
+}
+
+interface BundledChunk {
+    fileName: string;
+    modules: Record<string, { renderedLength: number }>;
+}
+
+export interface DuplicateNpmPackage {
+    name: string;
+    
+    /**
+     * Size in bytes of the package's modules within the Vite bundle.
+     */
+    size: number;
+    
+    /**
+     * File names of the Vite chunks the package is bundled into.
+     */
+    chunks: string[];
+}
@@ -0,0 +1,123 @@
+import type { MeteorInstall } from '../parser/MeteorInstall';
+import type { ParsedPackage } from '../parser/Parser';
+
+/**
+ * Lookup table for the npm packages bundled within Meteor's `modules.js` package.
+ *
+ * Externalized npm packages (`externalizeNpmPackages`) are all served from the same `meteor/modules` bundle, so
+ * rather than walking every bundled npm package for each import, we index the bundle's node_modules once and
+ * memoize every resolved import.
+ *
+ * The index is tied to the parsed package it was built from. As long as the parsed package is reused (see
+ * ParserCache), subsequent requests are served straight from the index.
+ */
+export class NpmBundleIndex {
+    protected static readonly indexes = new WeakMap<ParsedPackage, NpmBundleIndex>();
+    
+    /**
+     * Bundled npm packages by name and node_modules directory.
+     * Built on the first lookup.
+     */
+    protected packages?: Map<string, MeteorInstall>;
+    
+    /**
+     * Previously resolved imports.
+     * @example
+     * 'react/jsx-runtime' -> { install: <react>, importPath: 'jsx-runtime' }
+     */
+    protected readonly resolved = new Map<string, NpmModule | undefined>();
+    
+    constructor(protected readonly node_modules: MeteorInstall[]) {}
+    
+    /**
+     * Get the npm index for the provided (modules.js) package.
+     */
+    public static for(parsedPackage: ParsedPackage) {
+        let index = this.indexes.get(parsedPackage);
+        
+        if (!index) {
+            index = new this(parsedPackage.node_modules || []);
+            this.indexes.set(parsedPackage, index);
+        }
+        
+        return index;
+    }
+    
+    /**
+     * Find the bundled npm package for the provided import.
+     *
+     * @example
+     * index.resolve('react') // { install: <react>, importPath: '' }
+     * index.resolve('@babel/runtime/helpers/typeof') // { install: <@babel>, importPath: 'runtime/helpers/typeof' }
+     */
+    public resolve(moduleImport: string): NpmModule | undefined {
+        if (this.resolved.has(moduleImport)) {
+            return this.resolved.get(moduleImport);
+        }
+        
+        const npmModule = this.lookup(moduleImport);
+        this.resolved.set(moduleImport, npmModule);
+        
+        return npmModule;
+    }
+    
+    protected lookup(moduleImport: string): NpmModule | undefined {
+        const segments = moduleImport.split('/');
+        const candidates = [moduleImport];
+        
+        if (moduleImport.startsWith('@')) {
+            candidates.push(segments.slice(0, 2).join('/'));
+        }
+        
+        candidates.push(segments[0]);
+        
+        for (const candidate of candidates) {
+            const install = this.getPackages().get(candidate);
+            
+            if (!install) {
+                continue;
+            }
+            
+            return {
+                install,
+                importPath: moduleImport.slice(candidate.length).replace(/^\//, ''),
+            };
+        }
+    }
+    
+    protected getPackages() {
+        if (this.packages) {
+            return this.packages;
+        }
+        
+        this.packages = new Map();
+        
+        // Directory names take precedence over names read from package.json. Scoped packages are bundled as a
+        // single directory for the scope (e.g. @babel) with the package.json of each package nested within.
+        this.node_modules.forEach((install) => {
+            if (install.name && !this.packages!.has(install.name)) {
+                this.packages!.set(install.name, install);
+            }
+        });
+        this.node_modules.forEach((install) => {
+            if (install.packageId) {
+                this.packages!.set(install.packageId, install);
+            }
+        });
+        
+        return this.packages;
+    }
+}
+
+export interface NpmModule {
+    /**
+     * Bundled npm package containing the requested module.
+     */
+    install: MeteorInstall;
+    
+    /**
+     * Path to the requested module, relative to the npm package's root.
+     * Empty for the package's main module.
+     */
+    importPath: string;
+}
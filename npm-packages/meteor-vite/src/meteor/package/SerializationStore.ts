@@ -1,6 +1,7 @@
 import pc from 'picocolors';
 import Logger from '../../utilities/Logger';
 import { ErrorMetadata, MeteorViteError } from '../../error/MeteorViteError';
+import type { ExportValueType } from '../parser/Parser';
 import ModuleExport from './components/ModuleExport';
 import PackageExport from './components/PackageExport';
 
@@ -135,6 +136,7 @@ export class SerializationStore {
         const exports = new Set<string>;
         const reExports = new Set<string>;
         const imports = new Set<string>;
+        const exportTypes: Record<string, ExportValueType> = {};
         
         this.reExportWildcards.forEach((entry) => reExports.add(entry.serialize()));
         this.reExportsPathMap.forEach((entry, path) => {
@@ -143,7 +145,13 @@ export class SerializationStore {
         });
         
         this.imports.forEach((entry) => imports.add(entry.serializeImport()));
-        this.exports.forEach((entry) => exports.add(entry.serialize()));
+        this.exports.forEach((entry, key) => {
+            exports.add(entry.serialize());
+            
+            if (entry.valueType) {
+                exportTypes[key] = entry.valueType;
+            }
+        });
         
         return {
             imports: [...imports],
@@ -153,6 +161,12 @@ export class SerializationStore {
                 ...this.reExports.keys(),
                 ...this.exports.keys()
             ],
+            exportTypes,
+            wildcardReExports: [...this.reExportWildcards.values()].map(({ from, exportPath, parentModule }) => ({
+                from: from!,
+                exportPath: exportPath!,
+                modulePath: parentModule.modulePath,
+            })),
         };
     }
 }
@@ -6,17 +6,25 @@ import MeteorPackage from './components/MeteorPackage';
 export const METEOR_STUB_KEY = `m2`;
 export const PACKAGE_SCOPE_KEY = 'm';
 export const TEMPLATE_GLOBAL_KEY = 'g';
+export const WILDCARD_NAMESPACE_KEY = 'w';
+export const STUB_VALIDATION_ENDPOINT = '/__meteor__/stub-validation';
 
 /**
  * Creates a stub for the provided Meteor package and requested submodule.
  * Used to bridge imports for Meteor code that Vite doesn't have access to, to the below template that acts as a
  * proxy between Vite and Meteor's modules.
  */
-export function stubTemplate({ requestId, meteorPackage, importPath, stubValidation: validationSettings }: {
+export function stubTemplate({ requestId, meteorPackage, importPath, stubValidation: validationSettings, reportEndpoint }: {
     requestId: string;
     stubValidation?: StubValidationSettings,
     meteorPackage: MeteorPackage;
     importPath?: string;
+    
+    /**
+     * Vite dev server endpoint for forwarding validation failures to the server console.
+     * Omitted for production builds.
+     */
+    reportEndpoint?: string;
 }) {
     const stubId = getStubId();
     const { packageId } = meteorPackage;
@@ -27,8 +35,12 @@ export function stubTemplate({ requestId, meteorPackage, importPath, stubValidat
     const stubValidation = stubValidationTemplate({
         packageId,
         requestId,
+        meteorPackage,
         settings: validationSettings,
         exportKeys: serializedPackage.exportKeys,
+        exportTypes: serializedPackage.exportTypes,
+        wildcardReExports: serializedPackage.wildcardReExports,
+        reportEndpoint,
     });
     
     // language="js"
@@ -90,11 +102,15 @@ ${imports}
 ${content}`;
 }
 
-function stubValidationTemplate({ settings, requestId, exportKeys, packageId }: {
+function stubValidationTemplate({ settings, requestId, exportKeys, exportTypes, packageId, meteorPackage, wildcardReExports, reportEndpoint }: {
     settings?: StubValidationSettings,
     requestId: string;
     exportKeys: string[];
+    exportTypes: StubValidatorOptions['exportTypes'];
     packageId: string;
+    meteorPackage: MeteorPackage;
+    wildcardReExports: { from: string, exportPath: string, modulePath: string }[];
+    reportEndpoint?: string;
 }) {
     if (settings?.disabled) {
         return {
@@ -115,13 +131,41 @@ function stubValidationTemplate({ settings, requestId, exportKeys, packageId }:
         requestId,
         packageName: packageId,
         exportKeys: exportKeys,
+        exportTypes,
+        wildcardReExports: [],
         warnOnly: settings?.warnOnly,
     }
     
+    // Wildcard re-exports are imported as namespaces so the validator can check them against the target's exports
+    const namespaceImports: string[] = [];
+    const namespaces: string[] = [];
+    
+    wildcardReExports.forEach(({ exportPath, ...wildcard }) => {
+        const wildcardExports = meteorPackage.getWildcardExports(wildcard);
+        
+        if (!wildcardExports) {
+            return;
+        }
+        
+        const namespaceKey = `${WILDCARD_NAMESPACE_KEY}${namespaces.length}`;
+        
+        validatorOptions.wildcardReExports!.push({ from: exportPath, ...wildcardExports });
+        namespaceImports.push(`import * as ${namespaceKey} from '${exportPath}';`);
+        namespaces.push(`${JSON.stringify(exportPath)}: ${namespaceKey}`);
+    });
+    
+    // The stub is served by the Vite dev server, so the endpoint is resolved against Vite's base path relative to
+    // the stub's own URL. The base path is prefixed when the dev server is proxied through Meteor.
+    const runtime = [`wildcardNamespaces: { ${namespaces.join(', ')} }`];
+    if (reportEndpoint) {
+        const endpointPath = JSON.stringify(reportEndpoint.replace(/^\//, ''));
+        runtime.push(`reportUrl: new URL(import.meta.env.BASE_URL + ${endpointPath}, import.meta.url).href`);
+    }
+    
     // language=js
-    const importString = `import { validateStub } from 'meteor-vite/client';`
+    const importString = [`import { validateStub } from 'meteor-vite/client';`, ...namespaceImports].join('\n');
     // language=js
-    const validateStub = `validateStub(${METEOR_STUB_KEY}, ${JSON.stringify(validatorOptions)});`;
+    const validateStub = `validateStub(${METEOR_STUB_KEY}, ${JSON.stringify(validatorOptions)}, { ${runtime.join(', ')} });`;
     
     return {
         importString,
@@ -3,6 +3,8 @@ import { MeteorViteError } from '../../../error/MeteorViteError';
 import Logger from '../../../utilities/Logger';
 import type { ModuleList, ParsedPackage } from '../../parser/Parser';
 import { parseMeteorPackage } from '../../parser/Parser';
+import type { ParserCache } from '../../parser/ParserCache';
+import { NpmBundleIndex } from '../NpmBundleIndex';
 import { ConflictingExportKeys, SerializationStore } from '../SerializationStore';
 import type ModuleExport from './ModuleExport';
 import PackageExport from './PackageExport';
@@ -28,6 +30,7 @@ export default class MeteorPackage implements Omit<ParsedPackage, 'packageScopeE
                     packageName,
                     meteorPackage: this,
                     key,
+                    valueType: parsedPackage.packageScopeValueTypes?.[packageName]?.[key],
                 }));
             });
         })
@@ -35,6 +38,7 @@ export default class MeteorPackage implements Omit<ParsedPackage, 'packageScopeE
     
     public toJson() {
         const { name, modules, mainModulePath, packageScopeExports, packageId } = this;
+        const { conflicts, ...mainModule } = this.serialize({});
         return JSON.stringify({
             name,
             modules,
@@ -42,14 +46,16 @@ export default class MeteorPackage implements Omit<ParsedPackage, 'packageScopeE
             packageId,
             mainModulePath,
             serialized: {
-                mainModule: this.serialize({}),
+                mainModule,
+                conflicts: conflicts.map(({ meta }) => meta.conflict.thisExport.key),
             }
         }, null, 2);
     }
     
-    public static async parse(parse: Parameters<typeof parseMeteorPackage>[0], options?: { ignoreDuplicateExportsInPackages?: string[] }) {
-        const { result, timeSpent } = await parseMeteorPackage(parse);
-        return new MeteorPackage(result, { timeSpent, ...options });
+    public static async parse(parse: Parameters<typeof parseMeteorPackage>[0], options?: { ignoreDuplicateExportsInPackages?: string[], cache?: ParserCache }) {
+        const { cache, ...meta } = options || {};
+        const { result, timeSpent } = await (cache ? cache.parse(parse) : parseMeteorPackage(parse));
+        return new MeteorPackage(result, { timeSpent, ...meta });
     }
     
     public getModule({ importPath }: { importPath?: string }): PackageSubmodule | undefined {
@@ -82,26 +88,14 @@ export default class MeteorPackage implements Omit<ParsedPackage, 'packageScopeE
         }
         
         const moduleImport = importPath.replace('/node_modules/', '');
-        const nodePackage = this.parsedPackage.node_modules.find(({ name }) => {
-            if (!name) {
-                return;
-            }
-            if (name === moduleImport) {
-                return true;
-            }
-            if (moduleImport.split('/')[0] === name) {
-                return true;
-            }
-            return false;
-        });
+        const npmModule = NpmBundleIndex.for(this.parsedPackage).resolve(moduleImport);
         
-        if (!nodePackage) {
-            throw new MeteorPackageError(`Could not locate npm package: ${nodePackage} in ${this.name} (${importPath})`, this);
+        if (!npmModule) {
+            throw new MeteorPackageError(`Could not locate npm package: ${moduleImport} in ${this.name} (${importPath})`, this);
         }
         
-        const meteorNodePackage = new MeteorPackage({ ...nodePackage, packageScopeExports: {} }, { timeSpent: 'none' });
-        const childPackageImportPath = moduleImport.replace(nodePackage.name, '').replace(/^\//, '');
-        return meteorNodePackage.getModule({ importPath: childPackageImportPath });
+        const meteorNodePackage = new MeteorPackage({ ...npmModule.install, packageScopeExports: {} }, { timeSpent: 'none' });
+        return meteorNodePackage.getModule({ importPath: npmModule.importPath });
     }
     
     public get mainModule(): PackageSubmodule | undefined {
@@ -146,6 +140,7 @@ export default class MeteorPackage implements Omit<ParsedPackage, 'packageScopeE
     public serialize({ importPath }: { importPath?: string }) {
         const store = new SerializationStore();
         const submodule = this.getModule({ importPath });
+        const conflicts: ConflictingExportKeys[] = [];
         
         const addEntry = (entry: ModuleExport | PackageExport) => {
             try {
@@ -155,6 +150,7 @@ export default class MeteorPackage implements Omit<ParsedPackage, 'packageScopeE
                     if (this.meta?.ignoreDuplicateExportsInPackages?.includes(submodule?.meteorPackage.packageId!)) {
                         return;
                     }
+                    conflicts.push(error);
                 }
                 Logger.warn(error);
             }
@@ -199,7 +195,35 @@ export default class MeteorPackage implements Omit<ParsedPackage, 'packageScopeE
             }
         });
         
-        return store.serialize();
+        return { ...store.serialize(), conflicts };
+    }
+    
+    /**
+     * Keys exported by the target of an `export * from '...'` re-export within this package.
+     * Undefined for targets outside the package, those are left for the other package's stub to validate.
+     *
+     * @param wildcard.modulePath Path of the module containing the re-export, which relative targets are resolved from.
+     * @example
+     * export * from './utils' // ['formatDate', 'parseDate']
+     * export * from 'meteor/tracker' // undefined
+     */
+    public getWildcardExports({ from, modulePath }: { from: string, modulePath: string }) {
+        if (!from.startsWith('.')) {
+            return;
+        }
+        
+        try {
+            const importPath = Path.posix.join(Path.posix.dirname(modulePath), from);
+            const { exportKeys, exportTypes } = this.serialize({ importPath });
+            
+            // Default exports are never included in wildcard re-exports
+            return {
+                exportKeys: exportKeys.filter((key) => key !== 'default'),
+                exportTypes,
+            };
+        } catch (error) {
+            Logger.debug(`Unable to resolve exports for wildcard re-export '${from}' in ${this.packageId}`, error);
+        }
     }
 }
 
@@ -1,3 +1,4 @@
+import Path from 'path';
 import { ErrorMetadata, MeteorViteError } from '../../../error/MeteorViteError';
 import { PackageSubmodule } from './PackageSubmodule';
 import { ModuleExportData } from '../../parser/Parser';
@@ -11,15 +12,17 @@ export default class ModuleExport implements ModuleExportData {
     public readonly name;
     public readonly id;
     public readonly stubType;
+    public readonly valueType;
     
     constructor(details: { data: ModuleExportData, parentModule: PackageSubmodule }) {
         this.parentModule = details.parentModule;
-        const { from, as, type, name, id } = details.data;
+        const { from, as, type, name, id, valueType } = details.data;
         this.from = from;
         this.as = as;
         this.name = name;
         this.id = id;
         this.type = type;
+        this.valueType = valueType;
         this.stubType = this.determineStubType(type);
     }
     
@@ -120,7 +123,8 @@ export default class ModuleExport implements ModuleExportData {
             return;
         }
         if (this.from?.startsWith('.')) {
-            return `${this.parentModule.meteorPackage.packageId}/${this.from?.replace(/^[./]+/, '')}`;
+            const modulePath = Path.posix.join(Path.posix.dirname(this.parentModule.modulePath), this.from);
+            return `${this.parentModule.meteorPackage.packageId}/${modulePath}`;
         }
         return this.from;
     }
@@ -1,6 +1,7 @@
 import pc from 'picocolors';
 import PackageJSON from '../../../../package.json';
 import Logger from '../../../utilities/Logger';
+import type { ExportValueType } from '../../parser/Parser';
 import { PACKAGE_SCOPE_KEY, TEMPLATE_GLOBAL_KEY } from '../StubTemplate';
 import MeteorPackage from './MeteorPackage';
 
@@ -9,11 +10,18 @@ export default class PackageExport {
     public readonly meteorPackage: MeteorPackage;
     public readonly packageName: string;
     public readonly key: string;
+    public readonly valueType?: ExportValueType;
     
-    constructor({ meteorPackage, key, packageName }: { meteorPackage: MeteorPackage, key: string, packageName: string }) {
+    constructor({ meteorPackage, key, packageName, valueType }: {
+        meteorPackage: MeteorPackage,
+        key: string,
+        packageName: string,
+        valueType?: ExportValueType,
+    }) {
         this.meteorPackage = meteorPackage;
         this.packageName = packageName;
         this.key = key;
+        this.valueType = valueType;
         
         if (meteorPackage.name !== packageName) {
             Logger.warn(`Detected multiple package definitions within ${pc.yellow(this.meteorPackage.name)}! Please report this to ${PackageJSON.bugs.url}`)
@@ -131,11 +131,12 @@ export class MeteorInstall {
             
             
             traverse(property.value.body, {
-                enter(node) {
-                    module.parse(node);
+                enter(node, ancestors) {
+                    module.parse(node, ancestors);
                 },
             });
             
+            module.resolveValueTypes();
             this.modules[path] = module.exports;
             
             if (name !== 'package.json') {
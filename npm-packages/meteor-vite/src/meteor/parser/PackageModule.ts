@@ -1,18 +1,23 @@
 import {
     isAssignmentExpression,
     isCallExpression,
+    isClassDeclaration,
+    isFunction,
+    isFunctionDeclaration,
     isIdentifier,
     isMemberExpression,
     isObjectExpression,
     isObjectProperty,
     isStringLiteral,
+    isVariableDeclaration,
     Node,
     NumericLiteral,
     ObjectExpression,
     StringLiteral,
+    TraversalAncestors,
 } from '@babel/types';
 import Logger from '../../utilities/Logger';
-import { ModuleExportData, propParser } from './Parser';
+import { ExportValueType, ModuleExportData, propParser, valueParser } from './Parser';
 import { ModuleExportsError } from './ParserError';
 import { KnownModuleMethodNames, ModuleMethod, ModuleMethodName } from './ParserTypes';
 
@@ -31,6 +36,21 @@ export class PackageModule {
     public readonly exports: ModuleExportData[] = [];
     public jsonContent?: Record<string, string>
     
+    /**
+     * Value types of the module's local declarations, keyed by the function node they're declared in, then by name.
+     * Used to determine the value type of exports that are only referenced by name.
+     * Keyed by the scope's node rather than its depth, so sibling functions declaring the same name don't collide.
+     * @example
+     * const foo = 'bar' // moduleFunction -> 'foo' -> 'string'
+     */
+    protected readonly bindings = new Map<Node | undefined, Map<string, ExportValueType | undefined>>();
+    
+    /**
+     * Export values that need to be resolved once the whole module has been traversed.
+     * Meteor declares exports at the top of a module, before the values they refer to have been declared.
+     */
+    protected readonly exportValues: { data: ModuleExportData, value: Node, scope?: Node }[] = [];
+    
     constructor(public readonly path: string) {
     }
     
@@ -88,15 +108,23 @@ export class PackageModule {
      * Parse everything within the current module and store detected exports.
      * Todo: Possibly migrate parsers to their own class to save on memory usage?
      */
-    public parse(node: Node) {
+    public parse(node: Node, ancestors: TraversalAncestors = []) {
+        const scope = ancestors.map(({ node }) => node).filter((node) => isFunction(node)).pop();
         const moduleExports = this.getModuleExportsAssignment(node);
         const cjsExport = this.getCjsExportAssignment(node);
         
+        this.parseDeclaration(node, scope);
+        
         if (cjsExport) { // export.<name> = (...)
-            this.exports.push({
+            const data: ModuleExportData = {
                 name: cjsExport.name,
                 type: 'export',
-            });
+            };
+            this.exports.push(data);
+            
+            if (isAssignmentExpression(node)) {
+                this.exportValues.push({ data, value: node.right, scope });
+            }
             return;
         }
         
@@ -129,7 +157,9 @@ export class PackageModule {
             if (this.path.endsWith('package.json')) {
                 this.parseJson(moduleExports);
             }
-            this.exports.push(...formatExports({ expression: moduleExports }));
+            const exports = formatExports({ expression: moduleExports });
+            this.exports.push(...exports);
+            this.trackExportValues(exports, moduleExports, scope);
         }
         
         if (!this.isModuleMethodCall(node)) return;
@@ -139,15 +169,95 @@ export class PackageModule {
         }
         
         if (this.isMethod(node, 'export')) {
-            return this.exports.push(...this.parseExport(node));
+            const exports = this.parseExport(node);
+            this.trackExportValues(exports, node.arguments[0] as ObjectExpression, scope);
+            return this.exports.push(...exports);
         }
         
         if (this.isMethod(node, 'exportDefault')) {
-            this.exports.push(...this.parseExportDefault(node));
+            const exports = this.parseExportDefault(node);
+            exports.forEach((data) => this.exportValues.push({ data, value: node.arguments[0], scope }));
+            this.exports.push(...exports);
             return;
         }
     }
     
+    /**
+     * Determine the value types for the exports collected while traversing the module.
+     * Has to be called after the module has been fully traversed.
+     */
+    public resolveValueTypes() {
+        this.exportValues.forEach(({ data, value, scope }) => {
+            const valueType = valueParser.getType(value, (name) => this.bindings.get(scope)?.get(name));
+            
+            if (valueType) {
+                data.valueType = valueType;
+            }
+        });
+        
+        this.exportValues.length = 0;
+        this.bindings.clear();
+    }
+    
+    /**
+     * Keep track of the value types for local function, class and const declarations.
+     */
+    protected parseDeclaration(node: Node, scope?: Node) {
+        if (isFunctionDeclaration(node) && node.id) {
+            this.setBinding(scope, node.id.name, 'function');
+            return;
+        }
+        
+        if (isClassDeclaration(node) && node.id) {
+            this.setBinding(scope, node.id.name, 'class');
+            return;
+        }
+        
+        if (!isVariableDeclaration(node)) return;
+        
+        node.declarations.forEach((declaration) => {
+            if (!isIdentifier(declaration.id)) return;
+            
+            // Variables that can be reassigned are left untyped
+            const valueType = node.kind === 'const'
+                              ? valueParser.getType(declaration.init)
+                              : undefined;
+            
+            this.setBinding(scope, declaration.id.name, valueType);
+        });
+    }
+    
+    protected setBinding(scope: Node | undefined, name: string, valueType?: ExportValueType) {
+        const bindings = this.bindings.get(scope) || new Map<string, ExportValueType | undefined>();
+        bindings.set(name, valueType);
+        this.bindings.set(scope, bindings);
+    }
+    
+    /**
+     * Queue up the values for exports declared using an object expression.
+     * @example
+     * module.export({ foo: () => foo }) // foo
+     * module.exports = { foo: 'bar' } // 'bar'
+     */
+    protected trackExportValues(exports: ModuleExportData[], expression: ObjectExpression, scope?: Node) {
+        expression.properties.forEach((property, index) => {
+            const data = exports[index];
+            
+            if (!data || property.type === 'SpreadElement') return;
+            
+            if (property.type === 'ObjectMethod') {
+                data.valueType = 'function';
+                return;
+            }
+            
+            this.exportValues.push({
+                data,
+                value: valueParser.getGetterBinding(property.value) || property.value,
+                scope,
+            });
+        });
+    }
+    
     protected parseJson(moduleExports: ObjectExpression) {
         this.jsonContent = {};
         for (const prop of moduleExports.properties) {
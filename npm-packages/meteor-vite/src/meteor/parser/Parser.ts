@@ -2,14 +2,23 @@ import { parse } from '@babel/parser';
 import {
     type FunctionExpression,
     is,
+    isArrayExpression,
+    isArrowFunctionExpression,
+    isBigIntLiteral,
+    isBooleanLiteral,
     isCallExpression,
+    isClass,
+    isFunction,
     isFunctionExpression,
     isIdentifier,
     isMemberExpression,
+    isNumericLiteral,
     isObjectExpression,
     isObjectProperty,
+    isRegExpLiteral,
     isReturnStatement,
     isStringLiteral,
+    isTemplateLiteral,
     Node,
     ObjectMethod,
     ObjectProperty,
@@ -99,6 +108,11 @@ function parseSource(code: string) {
                 if (packageScope) {
                     result.name = result.name || packageScope.name;
                     result.packageScopeExports[packageScope.name] = packageScope.exports;
+                    
+                    if (Object.keys(packageScope.valueTypes).length) {
+                        result.packageScopeValueTypes = result.packageScopeValueTypes || {};
+                        result.packageScopeValueTypes[packageScope.name] = packageScope.valueTypes;
+                    }
                 }
             }
         });
@@ -162,6 +176,7 @@ function parsePackageScope(node: Node) {
         const packageExport = {
             name: args.packageName.value,
             exports: [] as string[],
+            valueTypes: {} as Record<string, ExportValueType>,
         };
         
         /**
@@ -181,7 +196,16 @@ function parsePackageScope(node: Node) {
                 throw new ModuleExportsError('Unexpected property type received for package-scope exports!', property)
             }
             
-            packageExport.exports.push(propParser.getKey(property));
+            const key = propParser.getKey(property);
+            const valueType = property.type === 'ObjectMethod'
+                              ? 'function'
+                              : valueParser.getType(property.value);
+            
+            packageExport.exports.push(key);
+            
+            if (valueType) {
+                packageExport.valueTypes[key] = valueType;
+            }
         })
         
         return packageExport;
@@ -197,6 +221,7 @@ function parsePackageScope(node: Node) {
         const packageName = node.arguments[0].value;
         let packageClosure: FunctionExpression | null = null;
         const exports: string[] = [];
+        const valueTypes: Record<string, ExportValueType> = {};
         
         // Meteor V3 (Release Candidate)
         if (isFunctionExpression(node.arguments[1])) {
@@ -227,13 +252,18 @@ function parsePackageScope(node: Node) {
                         if (!isObjectProperty(node)) return;
                         if (!isIdentifier(node.key)) return;
                         exports.push(node.key.name);
+                        
+                        const valueType = valueParser.getType(node.value);
+                        if (valueType) {
+                            valueTypes[node.key.name] = valueType;
+                        }
                     });
                     
                 }
             }
         }
         
-        return { name: packageName, exports };
+        return { name: packageName, exports, valueTypes };
     }
     
     return meteorV2(node) || meteorV3(node);
@@ -252,11 +282,56 @@ export const propParser = {
     },
 }
 
+export const valueParser = {
+    /**
+     * Statically determine the kind of value the provided expression evaluates to.
+     * Identifiers are looked up using the provided bindings, if any.
+     *
+     * @example
+     * () => {}          // function
+     * class Foo {}      // class
+     * { foo: 'bar' }    // object
+     * 'Hello world'     // string
+     * someFunction()    // undefined (can't be determined without evaluating)
+     * new Foo()         // undefined (constructors can return functions or primitive wrappers)
+     */
+    getType(node?: Node | null, bindings?: (name: string) => ExportValueType | undefined): ExportValueType | undefined {
+        if (!node) return;
+        if (isClass(node)) return 'class';
+        if (isFunction(node)) return 'function';
+        if (isObjectExpression(node) || isArrayExpression(node) || isRegExpLiteral(node)) {
+            return 'object';
+        }
+        if (isStringLiteral(node) || isTemplateLiteral(node)) return 'string';
+        if (isNumericLiteral(node)) return 'number';
+        if (isBooleanLiteral(node)) return 'boolean';
+        if (isBigIntLiteral(node)) return 'bigint';
+        if (isIdentifier(node) && bindings) return bindings(node.name);
+    },
+    
+    /**
+     * Get the identifier returned by a `module.export()` getter.
+     * @example
+     * module.export({ foo: () => foo }) // foo
+     */
+    getGetterBinding(node: Node) {
+        if (!isArrowFunctionExpression(node)) return;
+        if (!isIdentifier(node.body)) return;
+        return node.body;
+    },
+}
+
 /**
  * Meteor package-level exports.
  * {@link https://docs.meteor.com/api/packagejs.html#PackageAPI-export}
  */
 export type PackageScopeExports = Record<string, string[]>;
+
+/**
+ * The kind of value behind an export, where it could be determined statically by the parser.
+ * Classes are kept separate from functions for readability, but validate as `typeof 'function'` at runtime.
+ */
+export type ExportValueType = 'function' | 'class' | 'object' | 'string' | 'number' | 'boolean' | 'bigint';
 export type ModuleList = { [key in string]: ModuleExportData[] };
 export type ModuleExportData = {
     /**
@@ -289,6 +364,14 @@ export type ModuleExportData = {
      * export { foo as bar }
      */
     as?: string;
+    
+    /**
+     * Kind of value exported, if it could be determined by the parser.
+     * @example ts
+     * export function foo() {} // function
+     * export const bar = 'bar' // string
+     */
+    valueType?: ExportValueType;
 };
 
 export interface ParsedPackage {
@@ -321,6 +404,12 @@ export interface ParsedPackage {
      */
     packageScopeExports: PackageScopeExports;
     
+    /**
+     * Value types for package-level exports that could be determined by the parser, mapped by package name and
+     * export key.
+     */
+    packageScopeValueTypes?: Record<string, Record<string, ExportValueType>>;
+    
     /**
      * Whether the parsed package is a Meteor-bundled npm package from modules.js or a normal Meteor package.
      */
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import FS from 'fs/promises';
+import Path from 'path';
+import PackageJSON from '../../../package.json';
+import Logger from '../../utilities/Logger';
+import { type ParseOptions, parseMeteorPackage } from './Parser';
+
+export type ParserResult = Awaited<ReturnType<typeof parseMeteorPackage>>;
+
+/**
+ * On-disk cache for parsed Meteor packages.
+ *
+ * Entries are keyed by a content hash of the package bundle, so a Meteor rebuild that changes a package's bundle
+ * results in a cache miss for that package only. The cache directory lives within the plugin's tempDir, which means
+ * parse results are shared between the Vite dev server and production builds, even though they read their
+ * bundles from different Meteor builds.
+ *
+ * @example cache layout
+ * <tempDir>/cache/parser/<content-hash>.json
+ * <tempDir>/cache/parser/bundles.json // Latest content hash for each bundle path, used to clean up stale entries.
+ */
+export class ParserCache {
+    /**
+     * Latest parse result for each package bundle.
+     * Prevents concurrent stub requests for the same package from parsing or reading the same cache entry twice.
+     */
+    protected readonly results = new Map<string, { hash: string, result: Promise<ParserResult> }>();
+    
+    /**
+     * Pending update to the bundle index. Updates are queued to avoid concurrent parses overwriting each other's
+     * changes to the index.
+     */
+    protected indexUpdate = Promise.resolve();
+    
+    constructor(
+        public readonly cacheDir: string,
+        protected readonly parser: (options: ParseOptions) => Promise<ParserResult> = parseMeteorPackage,
+    ) {}
+    
+    public async parse({ filePath, fileContent }: ParseOptions): Promise<ParserResult> {
+        const content = await (fileContent || FS.readFile(filePath, 'utf-8'));
+        const hash = createHash('sha1')
+            .update(PackageJSON.version)
+            .update(content)
+            .digest('hex');
+        
+        const existing = this.results.get(filePath);
+        
+        if (existing?.hash === hash) {
+            return existing.result;
+        }
+        
+        const result = this.load({ filePath, fileContent: content, hash }).catch((error) => {
+            this.results.delete(filePath);
+            throw error;
+        });
+        
+        this.results.set(filePath, { hash, result });
+        
+        return result;
+    }
+    
+    protected async load({ filePath, fileContent, hash }: { filePath: string, fileContent: string, hash: string }): Promise<ParserResult> {
+        const startTime = Date.now();
+        const entry = this.entryPath(hash);
+        const cached = await this.read(entry);
+        let parsed: ParserResult;
+        
+        if (cached) {
+            parsed = {
+                result: cached,
+                timeSpent: `${Date.now() - startTime}ms (cached)`,
+            }
+        } else {
+            parsed = await this.parser({ filePath, fileContent });
+            
+            await this.write(entry, JSON.stringify(parsed.result)).catch((error) => {
+                Logger.warn(`Unable to write parser cache entry for ${filePath}`, error);
+            });
+        }
+        
+        await this.updateIndex(filePath, hash).catch((error) => {
+            Logger.warn(`Unable to clean up outdated parser cache entries for ${filePath}`, error);
+        });
+        
+        return parsed;
+    }
+    
+    protected entryPath(hash: string) {
+        return Path.join(this.cacheDir, `${hash}.json`);
+    }
+    
+    protected get indexPath() {
+        return Path.join(this.cacheDir, 'bundles.json');
+    }
+    
+    protected async read<TContent = ParserResult['result']>(file: string): Promise<TContent | undefined> {
+        try {
+            return JSON.parse(await FS.readFile(file, 'utf-8'));
+        } catch (error) {
+            return;
+        }
+    }
+    
+    /**
+     * Writes go through a temporary file to avoid a concurrent dev server and build process reading a partial entry.
+     */
+    protected async write(file: string, content: string) {
+        const tempFile = `${file}.${process.pid}.tmp`;
+        
+        await FS.mkdir(Path.dirname(file), { recursive: true });
+        await FS.writeFile(tempFile, content);
+        await FS.rename(tempFile, file);
+    }
+    
+    /**
+     * Record the latest content hash for a package bundle and remove the bundle's previous entry, unless another
+     * bundle with the same content still uses it.
+     */
+    protected updateIndex(filePath: string, hash: string) {
+        const update = this.indexUpdate.then(async () => {
+            const bundlePath = Path.resolve(filePath);
+            const index = await this.read<Record<string, string>>(this.indexPath) || {};
+            const previousHash = index[bundlePath];
+            
+            if (previousHash === hash) {
+                return;
+            }
+            
+            index[bundlePath] = hash;
+            await this.write(this.indexPath, JSON.stringify(index));
+            
+            if (!previousHash || Object.values(index).includes(previousHash)) {
+                return;
+            }
+            
+            await FS.rm(this.entryPath(previousHash), { force: true });
+        });
+        
+        this.indexUpdate = update.catch(() => {});
+        
+        return update;
+    }
+}
@@ -0,0 +1,151 @@
+import { existsSync } from 'fs';
+import Path from 'path';
+import PLimit from 'p-limit';
+import { Worker } from 'worker_threads';
+import Logger from '../../utilities/Logger';
+import { type ParseOptions, parseMeteorPackage } from './Parser';
+import { ParserError } from './ParserError';
+import type { ParserResult } from './ParserCache';
+
+/**
+ * Pool of worker threads for parsing Meteor package bundles.
+ *
+ * Parsing a package runs Babel's parser and a full traversal of the bundle, which for larger packages can keep the
+ * Vite server's event loop busy for quite some time. Moving this off the main thread lets the dev server keep
+ * serving requests while a burst of stub requests is being processed at startup.
+ *
+ * Falls back to parsing on the main thread if threads are disabled or the parser worker script could not be found.
+ */
+export class ParserPool {
+    protected readonly idleWorkers: Worker[] = [];
+    protected readonly exitedWorkers = new WeakSet<Worker>();
+    protected readonly queue: PLimit.Limit;
+    protected readonly workerPath?: string;
+    protected taskCount = 0;
+    
+    constructor(public readonly threads: number, workerPath = ParserPool.defaultWorkerPath()) {
+        this.queue = PLimit(Math.max(threads, 1));
+        
+        if (threads > 0 && existsSync(workerPath)) {
+            this.workerPath = workerPath;
+        } else if (threads > 0) {
+            Logger.debug(`Parser worker not found at ${workerPath}. Falling back to parsing on the main thread.`);
+        }
+    }
+    
+    /**
+     * The parser worker is distributed in the same package as this module, which is bundled into either the
+     * Meteor-Vite worker (dist/bin) or the Vite plugin (dist/plugin). Resolved relative to this module rather than the
+     * working directory, as the Vite server might not be started from the Meteor project root.
+     */
+    public static defaultWorkerPath() {
+        return Path.resolve(__dirname, '..', 'bin', 'parser-worker.mjs');
+    }
+    
+    public get enabled() {
+        return !!this.workerPath;
+    }
+    
+    public async parse({ filePath, fileContent }: ParseOptions): Promise<ParserResult> {
+        if (!this.enabled) {
+            return parseMeteorPackage({ filePath, fileContent });
+        }
+        
+        const content = await fileContent;
+        
+        return this.queue(async () => {
+            const worker = this.idleWorkers.pop() || this.spawnWorker();
+            
+            try {
+                return await this.runTask(worker, { filePath, fileContent: content });
+            } finally {
+                worker.unref();
+                if (!this.exitedWorkers.has(worker)) {
+                    this.idleWorkers.push(worker);
+                }
+            }
+        });
+    }
+    
+    /**
+     * Stop all idle workers. Workers are unref'd while idle, so this is only necessary if you want to release
+     * resources before the process exits.
+     */
+    public async terminate() {
+        const workers = this.idleWorkers.splice(0);
+        await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+    
+    protected spawnWorker() {
+        const worker = new Worker(this.workerPath!);
+        
+        worker.on('exit', () => {
+            this.exitedWorkers.add(worker);
+            const index = this.idleWorkers.indexOf(worker);
+            if (index !== -1) {
+                this.idleWorkers.splice(index, 1);
+            }
+        });
+        
+        return worker;
+    }
+    
+    protected runTask(worker: Worker, options: { filePath: string, fileContent?: string }) {
+        const taskId = this.taskCount++;
+        worker.ref();
+        
+        return new Promise<ParserResult>((resolve, reject) => {
+            const cleanup = () => {
+                worker.off('message', onMessage);
+                worker.off('error', onError);
+                worker.off('exit', onExit);
+            }
+            const onMessage = (message: ParserWorkerResponse) => {
+                if (message.taskId !== taskId) {
+                    return;
+                }
+                cleanup();
+                
+                if ('error' in message) {
+                    return reject(new ParserError(message.error.message, { parseOptions: options }));
+                }
+                
+                resolve(message.result);
+            }
+            const onError = (error: Error) => {
+                cleanup();
+                reject(error);
+            }
+            const onExit = (exitCode: number) => {
+                cleanup();
+                reject(new ParserError(`Parser worker exited with code ${exitCode} before completing the task`, {
+                    parseOptions: options,
+                }));
+            }
+            
+            worker.on('message', onMessage);
+            worker.on('error', onError);
+            worker.on('exit', onExit);
+            worker.postMessage({ taskId, options } satisfies ParserWorkerRequest);
+        });
+    }
+}
+
+export interface ParserWorkerRequest {
+    taskId: number;
+    options: {
+        filePath: string;
+        fileContent?: string;
+    };
+}
+
+export type ParserWorkerResponse = {
+    taskId: number;
+    result: ParserResult;
+} | {
+    taskId: number;
+    error: {
+        message: string;
+        stack?: string;
+    };
+}
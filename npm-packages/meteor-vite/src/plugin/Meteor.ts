@@ -1,3 +1,4 @@
+import OS from 'os';
 import Path from 'path';
 import pc from 'picocolors';
 import { Plugin, PluginOption, ResolvedConfig, UserConfig } from 'vite';
@@ -72,6 +73,9 @@ export function meteorWorker(config: PartialPluginOptions): PluginOption {
                         }
                     },
                     tempDir: Path.join(METEOR_LOCAL_DIR, 'vite'),
+                    parser: {
+                        threads: Math.max(OS.cpus().length - 1, 0),
+                    },
                     stubValidation: {
                         warnOnly: process.env.NODE_ENV === 'production',
                         disabled: false,
@@ -80,7 +84,9 @@ export function meteorWorker(config: PartialPluginOptions): PluginOption {
                 
                 const mergedUserConfig = mergeViteSettings(userConfig, {
                     optimizeDeps: {
-                        entries: [pluginSettings.clientEntry]
+                        entries: typeof pluginSettings.clientEntry === 'object'
+                                 ? Object.values(pluginSettings.clientEntry)
+                                 : [pluginSettings.clientEntry],
                     }
                 });
                 
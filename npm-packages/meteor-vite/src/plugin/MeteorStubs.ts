@@ -7,16 +7,25 @@ import PackageJSON from '../../package.json';
 import { createErrorHandler } from '../error/ErrorHandler';
 import { MeteorViteError } from '../error/MeteorViteError';
 import MeteorPackage from '../meteor/package/components/MeteorPackage';
-import { stubTemplate } from '../meteor/package/StubTemplate';
+import { PackageDeclarations } from '../meteor/package/DeclarationTemplate';
+import { ParserCache } from '../meteor/parser/ParserCache';
+import { ParserPool } from '../meteor/parser/ParserPool';
+import { STUB_VALIDATION_ENDPOINT, stubTemplate } from '../meteor/package/StubTemplate';
 import ViteLoadRequest from '../ViteLoadRequest';
-import { type PluginSettings, ResolvedMeteorViteConfig } from '../VitePluginSettings';
+import { type PluginSettings, ResolvedMeteorViteConfig, type ResolvedPluginSettings } from '../VitePluginSettings';
 
 export const MeteorStubs = setupPlugin(async () => {
+    let cache: ParserCache;
+    let declarations: PackageDeclarations | undefined;
+    
     return {
         name: 'meteor-vite: stubs',
         resolveId: (id) => ViteLoadRequest.resolveId(id),
         shouldProcess: (viteId) => ViteLoadRequest.isStubRequest(viteId),
-        async validateConfig({ meteorStubs }: ResolvedPluginConfig) {
+        async validateConfig({ meteorStubs, tempDir, parser, typegen }: ResolvedPluginConfig) {
+            cache = getParserCache({ tempDir, parser });
+            declarations = typegen?.outDir ? new PackageDeclarations(typegen.outDir) : undefined;
+            
             if (!meteorStubs.packageJson) {
                 const jsonPath = meteorStubs.packageJsonPath || 'package.json';
                 meteorStubs.packageJson = JSON.parse(await FS.readFile(jsonPath, 'utf-8'));
@@ -42,13 +51,15 @@ export const MeteorStubs = setupPlugin(async () => {
                 filePath: request.context.file.sourcePath,
                 fileContent: request.context.file.content,
             }, {
-                ignoreDuplicateExportsInPackages: request.context.pluginSettings.stubValidation.ignoreDuplicateExportsInPackages
+                ignoreDuplicateExportsInPackages: request.context.pluginSettings.stubValidation.ignoreDuplicateExportsInPackages,
+                cache,
             });
             
             const template = stubTemplate({
                 requestId: request.context.id,
                 importPath: request.requestedModulePath,
                 stubValidation: request.context.pluginSettings.stubValidation,
+                reportEndpoint: request.context.server ? STUB_VALIDATION_ENDPOINT : undefined,
                 meteorPackage,
             })
             
@@ -57,6 +68,16 @@ export const MeteorStubs = setupPlugin(async () => {
                 'Request duration': `${Date.now() - timeStarted}ms`,
             });
             
+            // Externalized npm packages already have their own types
+            if (declarations && !request.context.id.startsWith('meteor/modules/node_modules/')) {
+                await declarations.write({
+                    moduleId: request.context.id,
+                    packageId: request.context.file.packageId,
+                    importPath: request.requestedModulePath,
+                    meteorPackage,
+                }).catch((error) => request.log.warn('Unable to write type declarations', { Error: error.message }));
+            }
+            
             if (request.context.pluginSettings.meteorStubs.debug) {
                 await storeDebugSnippet({ request, stubTemplate: template, meteorPackage })
             }
@@ -66,6 +87,39 @@ export const MeteorStubs = setupPlugin(async () => {
     }
 })
 
+/**
+ * Parser threads are shared between plugin instances so that restarting the Vite server does not leave behind
+ * the workers from the previous instance.
+ */
+let parserPool: ParserPool | undefined;
+
+function getParserPool(threads: number) {
+    if (parserPool?.threads !== threads) {
+        parserPool?.terminate();
+        parserPool = new ParserPool(threads);
+    }
+    
+    return parserPool;
+}
+
+/**
+ * The parser cache is shared with everything else that parses Meteor packages within the same process, like the
+ * production build's duplicate npm package check, so each package bundle is only parsed once.
+ */
+let parserCache: ParserCache | undefined;
+
+export function getParserCache({ tempDir, parser }: Pick<ResolvedPluginSettings, 'tempDir' | 'parser'>) {
+    const cacheDir = Path.join(tempDir, 'cache', 'parser');
+    getParserPool(parser?.threads ?? 0);
+    
+    if (parserCache?.cacheDir !== cacheDir) {
+        // Parse through whichever pool is current, as the pool is replaced if the thread count changes.
+        parserCache = new ParserCache(cacheDir, (options) => parserPool!.parse(options));
+    }
+    
+    return parserCache;
+}
+
 async function storeDebugSnippet({ request, stubTemplate, meteorPackage }: {
     request: ViteLoadRequest,
     stubTemplate: string,
@@ -110,7 +164,13 @@ function setupPlugin<Context extends ViteLoadRequest>(setup: () => Promise<{
         let server: ViteDevServer;
         return {
             name: plugin.name,
-            resolveId: plugin.resolveId,
+            resolveId(viteId, importer, options) {
+                // Meteor packages are available as-is to modules rendered by the Meteor server
+                if (options?.ssr && viteId.startsWith('meteor/')) {
+                    return { id: viteId, external: true };
+                }
+                return plugin.resolveId(viteId);
+            },
             async configResolved(resolvedConfig) {
                 const pluginSettings = (resolvedConfig as ResolvedMeteorViteConfig).meteor;
                 if (!pluginSettings) {
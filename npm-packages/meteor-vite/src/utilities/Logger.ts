@@ -12,7 +12,9 @@ function createLogger<Params extends DefaultParams>(formatter: (...params: Param
 
 function formatMessage([message, ...params]: Parameters<typeof console.log>): Parameters<typeof console.log> {
     if (message instanceof MeteorViteError) {
-        message.beautify().then(() => console.warn(message, ...params));
+        message.beautify()
+            .catch((error) => console.warn('⚡  Unable to format error', error))
+            .then(() => console.warn(message, ...params));
         return [];
     }
     if (typeof message === 'string') {
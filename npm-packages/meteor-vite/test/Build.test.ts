@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'vitest';
+import { renderBuiltUrl } from '../src/meteor/IPC/methods/build';
+
+describe('Build', () => {
+    describe('renderBuiltUrl', () => {
+        test('resolves asset URLs in scripts from the CDN or ROOT_URL at runtime', () => {
+            const url = renderBuiltUrl('assets/logo-4f1c2a.svg', { type: 'asset', hostType: 'js' });
+            const resolve = (config: Record<string, string>) => {
+                const runtime = (url as { runtime: string }).runtime;
+                return new Function('__meteor_runtime_config__', `return ${runtime}`)(config);
+            }
+            
+            expect(resolve({ ROOT_URL: 'https://example.com/app/' })).toEqual('https://example.com/app/__meteor-vite/assets/logo-4f1c2a.svg');
+            expect(resolve({ ROOT_URL: 'https://example.com/app', VITE_ASSETS_URL: 'https://cdn.example.com' }))
+                .toEqual('https://cdn.example.com/__meteor-vite/assets/logo-4f1c2a.svg');
+            expect(resolve({})).toEqual('/__meteor-vite/assets/logo-4f1c2a.svg');
+        });
+        
+        test('keeps asset URLs in stylesheets relative to the stylesheet', () => {
+            expect(renderBuiltUrl('assets/logo-4f1c2a.svg', { type: 'asset', hostType: 'css' })).toEqual({ relative: true });
+        });
+        
+        test('leaves public files to Vite', () => {
+            expect(renderBuiltUrl('favicon.ico', { type: 'public', hostType: 'js' })).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, type SpyInstance, test, vi } from 'vitest';
+import { resolveConfig } from 'vite';
+import { CliError, runCli } from '../src/bin/cli-commands';
+import ViteLoadRequest from '../src/ViteLoadRequest';
+import type { ResolvedMeteorViteConfig } from '../src/VitePluginSettings';
+
+vi.mock('vite', async () => ({
+    ...await vi.importActual<typeof import('vite')>('vite'),
+    resolveConfig: vi.fn(),
+}));
+
+describe('CLI', () => {
+    const stopInspect = new Error('Stopped before loading the package');
+    let log: SpyInstance<any[], void>;
+    let error: SpyInstance<any[], void>;
+    const viteConfig = (config: object) => config as ResolvedMeteorViteConfig;
+    
+    beforeEach(() => {
+        log = vi.spyOn(console, 'log').mockImplementation(() => {});
+        error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.mocked(resolveConfig).mockResolvedValue(viteConfig({
+            meteor: { stubValidation: {} },
+        }));
+    });
+    
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+    
+    function inspectedPackageId() {
+        const [[request]] = vi.mocked(ViteLoadRequest.prepareContext).mock.calls;
+        return request.id;
+    }
+    
+    test('prints usage without a command', async () => {
+        expect(await runCli([])).toEqual(0);
+        expect(log).toHaveBeenCalledWith(expect.stringContaining('Usage: meteor-vite inspect <packageId>'));
+    });
+    
+    test('prints usage for unknown commands', async () => {
+        expect(await runCli(['unknown'])).toEqual(1);
+        expect(await runCli(['constructor'])).toEqual(1);
+        expect(log).toHaveBeenCalledTimes(2);
+        expect(log).toHaveBeenCalledWith(expect.stringContaining('Usage: meteor-vite inspect <packageId>'));
+    });
+    
+    describe('inspect', () => {
+        beforeEach(() => {
+            vi.spyOn(ViteLoadRequest, 'prepareContext').mockRejectedValue(stopInspect);
+        });
+        
+        test('requires a package ID', async () => {
+            expect(await runCli(['inspect'])).toEqual(1);
+            expect(error).toHaveBeenCalledWith(expect.any(CliError));
+            expect(error.mock.calls[0][0].message).toContain('Missing package ID to inspect!');
+            expect(ViteLoadRequest.prepareContext).not.toHaveBeenCalled();
+        });
+        
+        test('adds the meteor/ prefix to package IDs', async () => {
+            expect(await runCli(['inspect', 'ostrio:cookies'])).toEqual(1);
+            expect(inspectedPackageId()).toEqual('\0meteor/ostrio:cookies');
+        });
+        
+        test('accepts prefixed package IDs with a subpath', async () => {
+            await runCli(['inspect', 'meteor/ostrio:cookies/some-module']);
+            expect(inspectedPackageId()).toEqual('\0meteor/ostrio:cookies/some-module');
+        });
+        
+        test('prints errors thrown while inspecting the package', async () => {
+            expect(await runCli(['inspect', 'ostrio:cookies'])).toEqual(1);
+            expect(error).toHaveBeenCalledWith(stopInspect);
+        });
+        
+        test('requires the Meteor-Vite plugin in the Vite config', async () => {
+            vi.mocked(resolveConfig).mockResolvedValue(viteConfig({}));
+            
+            expect(await runCli(['inspect', 'ostrio:cookies'])).toEqual(1);
+            expect(error.mock.calls[0][0].message).toContain('Unable to resolve Meteor-Vite settings from your Vite config!');
+        });
+    });
+});
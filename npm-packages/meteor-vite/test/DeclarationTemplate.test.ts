@@ -0,0 +1,110 @@
+import FS from 'fs/promises';
+import OS from 'os';
+import Path from 'path';
+import { afterAll, describe, expect, test, vi } from 'vitest';
+import MeteorPackage from '../src/meteor/package/components/MeteorPackage';
+import { declarationTemplate, PackageDeclarations } from '../src/meteor/package/DeclarationTemplate';
+import { TsModules } from './__mocks';
+
+describe('DeclarationTemplate', async () => {
+    const tempDir = await FS.mkdtemp(Path.join(OS.tmpdir(), 'meteor-vite-typegen-'));
+    const meteorPackage = await MeteorPackage.parse({
+        filePath: TsModules.filePath,
+        fileContent: TsModules.fileContent,
+    });
+    
+    afterAll(() => FS.rm(tempDir, { recursive: true, force: true }));
+    
+    test('declares every export of the requested module', () => {
+        const declaration = declarationTemplate({ moduleId: 'meteor/test:ts-modules', meteorPackage });
+        
+        expect(declaration).toContain(`declare module 'meteor/test:ts-modules' {`);
+        expect(declaration).toContain(`export const first: any;`);
+        expect(declaration).toContain(`export const MyMeteor: any;`);
+        expect(declaration).toContain(`export default _default;`);
+    });
+    
+    test('flattens wildcard re-exports within the package', () => {
+        const declaration = declarationTemplate({ moduleId: 'meteor/test:ts-modules', meteorPackage });
+        
+        expect(declaration).toContain(`export const ExportXInteger: any;`);
+        expect(declaration).toContain(`export * from 'meteor/tracker';`);
+    });
+    
+    test('declares export keys that are not valid variable names', () => {
+        const meteorPackage = new MeteorPackage({
+            packageId: 'meteor/exampleuser:foobar',
+            name: 'exampleuser:foobar',
+            packageScopeExports: {},
+            mainModulePath: '',
+            modules: {
+                'index.js': [
+                    { type: 'export', name: 'valid' },
+                    { type: 'export', name: 'class' },
+                    { type: 'export', name: 'foo-bar' },
+                ],
+            },
+        }, { timeSpent: 'none' });
+        const declaration = declarationTemplate({ moduleId: 'meteor/exampleuser:foobar', meteorPackage, importPath: 'index.js' });
+        
+        expect(declaration).toContain(`export const valid: any;`);
+        expect(declaration).toContain(`const _class: any;\n    export { _class as class };`);
+        expect(declaration).not.toContain(`export const class`);
+        expect(declaration).not.toContain(`foo-bar`);
+    });
+    
+    test('writes one declaration file per package', async () => {
+        const declarations = new PackageDeclarations(Path.join(tempDir, 'types'), Path.join(tempDir, 'missing.d.ts'));
+        await declarations.write({ moduleId: 'meteor/test:ts-modules', packageId: 'meteor/test:ts-modules', meteorPackage });
+        const filePath = await declarations.write({
+            moduleId: 'meteor/test:ts-modules/explicit-relative-path',
+            packageId: 'meteor/test:ts-modules',
+            importPath: 'explicit-relative-path',
+            meteorPackage,
+        });
+        const content = await FS.readFile(filePath!, 'utf-8');
+        
+        expect(Path.basename(filePath!)).toEqual('test_ts-modules.d.ts');
+        expect(content).toContain(`declare module 'meteor/test:ts-modules' {`);
+        expect(content).toContain(`declare module 'meteor/test:ts-modules/explicit-relative-path' {`);
+    });
+    
+    test('keeps the declarations from concurrent writes for the same package', async () => {
+        const declarations = new PackageDeclarations(Path.join(tempDir, 'concurrent'), Path.join(tempDir, 'missing.d.ts'));
+        const writeFile = FS.writeFile;
+        const slowWrite = vi.spyOn(FS, 'writeFile').mockImplementationOnce(async (...args: Parameters<typeof writeFile>) => {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            return writeFile(...args);
+        });
+        
+        try {
+            const [filePath] = await Promise.all([
+                declarations.write({ moduleId: 'meteor/test:ts-modules', packageId: 'meteor/test:ts-modules', meteorPackage }),
+                declarations.write({
+                    moduleId: 'meteor/test:ts-modules/explicit-relative-path',
+                    packageId: 'meteor/test:ts-modules',
+                    importPath: 'explicit-relative-path',
+                    meteorPackage,
+                }),
+            ]);
+            const content = await FS.readFile(filePath!, 'utf-8');
+            
+            expect(content).toContain(`declare module 'meteor/test:ts-modules' {`);
+            expect(content).toContain(`declare module 'meteor/test:ts-modules/explicit-relative-path' {`);
+        } finally {
+            slowWrite.mockRestore();
+        }
+    });
+    
+    test('skips packages declared by zodern:types', async () => {
+        const typesDir = Path.join(tempDir, 'zodern');
+        await FS.mkdir(Path.join(typesDir, 'packages'), { recursive: true });
+        await FS.writeFile(Path.join(typesDir, 'packages.d.ts'), `/// <reference path="./packages/test_ts-modules.d.ts" />`);
+        await FS.writeFile(Path.join(typesDir, 'packages', 'test_ts-modules.d.ts'), `declare module 'meteor/test:ts-modules' {}`);
+        
+        const declarations = new PackageDeclarations(Path.join(tempDir, 'zodern-output'), Path.join(typesDir, 'packages.d.ts'));
+        const filePath = await declarations.write({ moduleId: 'meteor/test:ts-modules', packageId: 'meteor/test:ts-modules', meteorPackage });
+        
+        expect(filePath).toBeUndefined();
+    });
+})
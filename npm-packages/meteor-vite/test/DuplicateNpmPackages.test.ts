@@ -0,0 +1,107 @@
+import FS from 'fs/promises';
+import OS from 'os';
+import Path from 'path';
+import { describe, expect, test, vi } from 'vitest';
+import { findDuplicateNpmPackages, getNpmPackageName } from '../src/meteor/package/DuplicateNpmPackages';
+import { parseMeteorPackage } from '../src/meteor/parser/Parser';
+import { ParserCache } from '../src/meteor/parser/ParserCache';
+
+describe('DuplicateNpmPackages', () => {
+    const modulesPath = Path.join(__dirname, '__mocks/meteor-bundle/meteor-v2/example.react.modules.js.bundle');
+    
+    describe('getNpmPackageName', () => {
+        test('regular packages', () => {
+            expect(getNpmPackageName('/app/node_modules/react-dom/cjs/react-dom.production.min.js')).toEqual('react-dom');
+        });
+        
+        test('scoped packages', () => {
+            expect(getNpmPackageName('/app/node_modules/@babel/runtime/helpers/typeof.js')).toEqual('@babel/runtime');
+        });
+        
+        test('nested node_modules directories', () => {
+            expect(getNpmPackageName('/app/node_modules/react-dom/node_modules/scheduler/index.js')).toEqual('scheduler');
+        });
+        
+        test('modules with a query string', () => {
+            expect(getNpmPackageName('\0/app/node_modules/react/index.js?commonjs-module')).toEqual('react');
+            expect(getNpmPackageName('\0/app/node_modules/react?commonjs-exports')).toEqual('react');
+        });
+        
+        test('project modules', () => {
+            expect(getNpmPackageName('/app/imports/ui/App.tsx')).toBeUndefined();
+        });
+    });
+    
+    test('finds npm packages bundled by both Vite and Meteor', async () => {
+        const duplicates = await findDuplicateNpmPackages({
+            modulesPath,
+            chunks: [
+                {
+                    fileName: 'meteor-entry.js',
+                    modules: {
+                        '/app/imports/entrypoint/vite.tsx': { renderedLength: 200 },
+                        '/app/node_modules/react/index.js': { renderedLength: 100 },
+                        '/app/node_modules/react/cjs/react.production.min.js': { renderedLength: 5000 },
+                        '/app/node_modules/not-in-meteor-bundle/index.js': { renderedLength: 3000 },
+                    },
+                },
+                {
+                    fileName: 'vendor-4f1c2a.js',
+                    modules: {
+                        '/app/node_modules/react/jsx-runtime.js': { renderedLength: 50 },
+                    },
+                },
+            ],
+        });
+        
+        expect(duplicates).toEqual([
+            { name: 'react', size: 5150, chunks: ['meteor-entry.js', 'vendor-4f1c2a.js'] },
+        ]);
+    });
+    
+    test('scoped packages only match if Meteor bundles that package from the scope', async () => {
+        const duplicates = await findDuplicateNpmPackages({
+            modulesPath,
+            chunks: [
+                {
+                    fileName: 'meteor-entry.js',
+                    modules: {
+                        '/app/node_modules/@babel/runtime/helpers/typeof.js': { renderedLength: 400 },
+                        '/app/node_modules/@babel/not-shipped-by-meteor/index.js': { renderedLength: 1200 },
+                    },
+                },
+            ],
+        });
+        
+        expect(duplicates).toEqual([
+            { name: '@babel/runtime', size: 400, chunks: ['meteor-entry.js'] },
+        ]);
+    });
+    
+    test('parses the modules.js package through the provided parser cache', async () => {
+        const cacheDir = await FS.mkdtemp(Path.join(OS.tmpdir(), 'meteor-vite-duplicates-cache-'));
+        const parser = vi.fn(parseMeteorPackage);
+        const cache = new ParserCache(cacheDir, parser);
+        const chunks = [{ fileName: 'meteor-entry.js', modules: { '/app/node_modules/react/index.js': { renderedLength: 100 } } }];
+        
+        try {
+            const first = await findDuplicateNpmPackages({ modulesPath, chunks, cache });
+            const second = await findDuplicateNpmPackages({ modulesPath, chunks, cache });
+            
+            expect(first).toEqual([{ name: 'react', size: 100, chunks: ['meteor-entry.js'] }]);
+            expect(second).toEqual(first);
+            expect(parser).toHaveBeenCalledOnce();
+        } finally {
+            await FS.rm(cacheDir, { recursive: true, force: true });
+        }
+    });
+    
+    test('skips archs without a modules.js package', async () => {
+        const duplicates = await findDuplicateNpmPackages({
+            modulesPath: Path.join(__dirname, '__mocks/missing-modules.js'),
+            chunks: [{ fileName: 'meteor-entry.js', modules: { '/app/node_modules/react/index.js': { renderedLength: 100 } } }],
+        });
+        
+        expect(duplicates).toEqual([]);
+    });
+});
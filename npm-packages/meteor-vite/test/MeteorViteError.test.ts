@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'vitest';
+import { MeteorViteError } from '../src/error/MeteorViteError';
+
+describe('MeteorViteError', () => {
+    test('formats the error message', async () => {
+        const error = new MeteorViteError('Something went wrong', { subtitle: 'Some details' });
+        await error.beautify();
+        
+        expect(error.message).toContain('Something went wrong');
+        expect(error.message).toContain('Some details');
+    });
+    
+    test('can be beautified more than once', async () => {
+        const error = new MeteorViteError('Something went wrong', { cause: new Error('Some cause') });
+        await error.beautify();
+        const { message, stack } = error;
+        await error.beautify();
+        
+        expect(error.message).toEqual(message);
+        expect(error.stack).toEqual(stack);
+    });
+});
@@ -0,0 +1,47 @@
+import Path from 'path';
+import { describe, expect, test } from 'vitest';
+import MeteorPackage from '../src/meteor/package/components/MeteorPackage';
+import { NpmBundleIndex } from '../src/meteor/package/NpmBundleIndex';
+import { parseMeteorPackage } from '../src/meteor/parser/Parser';
+
+describe('NpmBundleIndex', async () => {
+    const filePath = Path.join(__dirname, '__mocks/meteor-bundle/meteor-v2/example.react.modules.js.bundle');
+    const { result } = await parseMeteorPackage({ filePath });
+    const index = NpmBundleIndex.for(result);
+    
+    test('reuses the index for the same parsed package', () => {
+        expect(NpmBundleIndex.for(result)).toBe(index);
+    });
+    
+    test('resolves a package main module', () => {
+        const npmModule = index.resolve('react');
+        
+        expect(npmModule?.install.name).toEqual('react');
+        expect(npmModule?.importPath).toEqual('');
+    });
+    
+    test('resolves package subpaths', () => {
+        const npmModule = index.resolve('react-dom/client');
+        
+        expect(npmModule?.install.name).toEqual('react-dom');
+        expect(npmModule?.importPath).toEqual('client');
+    });
+    
+    test('resolves modules within scoped packages', () => {
+        const npmModule = index.resolve('@babel/runtime/helpers/typeof');
+        
+        expect(npmModule?.install.packageId).toEqual('@babel');
+        expect(npmModule?.importPath).toEqual('runtime/helpers/typeof');
+    });
+    
+    test('does not resolve packages missing from the bundle', () => {
+        expect(index.resolve('vue')).toBeUndefined();
+    });
+    
+    test('serves node_modules requests for the modules package', async () => {
+        const meteorPackage = new MeteorPackage(result, { timeSpent: 'none' });
+        const submodule = meteorPackage.getModule({ importPath: '/node_modules/react-dom/client' });
+        
+        expect(submodule?.modulePath).toEqual('client.js');
+    });
+})
@@ -0,0 +1,46 @@
+import { parse } from '@babel/parser';
+import { traverse } from '@babel/types';
+import { describe, expect, test } from 'vitest';
+import { PackageModule } from '../src/meteor/parser/PackageModule';
+
+describe('PackageModule', () => {
+    function parseModule(code: string) {
+        const module = new PackageModule('index.js');
+        traverse(parse(code, { sourceType: 'module' }).program, {
+            enter(node, ancestors) {
+                module.parse(node, ancestors);
+            },
+        });
+        module.resolveValueTypes();
+        return module.exports;
+    }
+    
+    test('resolves bindings from the scope the export was declared in', () => {
+        const exports = parseModule(`
+            function first() {
+                module.export({ foo: () => foo });
+                const foo = 'bar';
+            }
+            function second() {
+                module.export({ foo: () => foo });
+                const foo = () => {};
+            }
+        `);
+        
+        expect(exports).toEqual([
+            { type: 'export', name: 'foo', valueType: 'string' },
+            { type: 'export', name: 'foo', valueType: 'function' },
+        ]);
+    });
+    
+    test('leaves the type of constructed values undetermined', () => {
+        const exports = parseModule(`
+            module.export({ store: () => store });
+            const store = new Store();
+        `);
+        
+        expect(exports).toEqual([
+            { type: 'export', name: 'store' },
+        ]);
+    });
+});
@@ -0,0 +1,101 @@
+import FS from 'fs/promises';
+import OS from 'os';
+import Path from 'path';
+import { afterAll, describe, expect, test } from 'vitest';
+import { parseMeteorPackage } from '../src/meteor/parser/Parser';
+import { ParserCache } from '../src/meteor/parser/ParserCache';
+import { TsModules } from './__mocks';
+
+describe('ParserCache', async () => {
+    const cacheDir = await FS.mkdtemp(Path.join(OS.tmpdir(), 'meteor-vite-parser-cache-'));
+    const parse = {
+        filePath: TsModules.filePath,
+        fileContent: TsModules.fileContent,
+    };
+    
+    const getEntries = async (directory = cacheDir) => {
+        return (await FS.readdir(directory)).filter((fileName) => fileName !== 'bundles.json');
+    }
+    
+    afterAll(() => FS.rm(cacheDir, { recursive: true, force: true }));
+    
+    test('stores parsed packages on disk', async () => {
+        const { result } = await new ParserCache(cacheDir).parse(parse);
+        const { result: expected } = await parseMeteorPackage(parse);
+        
+        expect(result).toEqual(expected);
+        expect(await getEntries()).toHaveLength(1);
+    });
+    
+    test('reuses cache entries across cache instances', async () => {
+        const { result, timeSpent } = await new ParserCache(cacheDir).parse(parse);
+        const { result: expected } = await parseMeteorPackage(parse);
+        
+        expect(timeSpent).toContain('cached');
+        expect(result).toEqual(JSON.parse(JSON.stringify(expected)));
+    });
+    
+    test('replaces outdated entries when the bundle content changes', async () => {
+        const [initialEntry] = await getEntries();
+        const { timeSpent } = await new ParserCache(cacheDir).parse({
+            filePath: TsModules.filePath,
+            fileContent: `${await TsModules.fileContent}\n// Rebuilt by Meteor`,
+        });
+        
+        expect(timeSpent).not.toContain('cached');
+        expect(await getEntries()).toHaveLength(1);
+        expect(await getEntries()).not.toContain(initialEntry);
+    });
+    
+    test('keeps entries for the same package built for other archs', async () => {
+        const archCacheDir = await FS.mkdtemp(Path.join(OS.tmpdir(), 'meteor-vite-parser-cache-'));
+        const cache = new ParserCache(archCacheDir);
+        const bundlePath = (arch: string) => `/app/.meteor/local/build/programs/${arch}/packages/test_ts-modules.js`;
+        
+        try {
+            await cache.parse({ filePath: bundlePath('web.browser'), fileContent: TsModules.fileContent });
+            await cache.parse({
+                filePath: bundlePath('web.browser.legacy'),
+                fileContent: `${await TsModules.fileContent}\n// Legacy build`,
+            });
+            
+            const entries = await getEntries(archCacheDir);
+            const { timeSpent } = await new ParserCache(archCacheDir).parse({
+                filePath: bundlePath('web.browser'),
+                fileContent: TsModules.fileContent,
+            });
+            
+            expect(entries).toHaveLength(2);
+            expect(timeSpent).toContain('cached');
+        } finally {
+            await FS.rm(archCacheDir, { recursive: true, force: true });
+        }
+    });
+    
+    test('shares entries between bundles with the same content', async () => {
+        const sharedCacheDir = await FS.mkdtemp(Path.join(OS.tmpdir(), 'meteor-vite-parser-cache-'));
+        const devServerBundle = '/app/.meteor/local/build/programs/web.browser/packages/test_ts-modules.js';
+        const buildBundle = '/app/.meteor/local/vite/meteor/programs/web.browser/packages/test_ts-modules.js';
+        
+        try {
+            await new ParserCache(sharedCacheDir).parse({ filePath: devServerBundle, fileContent: TsModules.fileContent });
+            const { timeSpent } = await new ParserCache(sharedCacheDir).parse({
+                filePath: buildBundle,
+                fileContent: TsModules.fileContent,
+            });
+            
+            expect(timeSpent).toContain('cached');
+            expect(await getEntries(sharedCacheDir)).toHaveLength(1);
+            
+            // The entry is still in use by the build's bundle, so it's kept after the dev server's bundle changes.
+            await new ParserCache(sharedCacheDir).parse({
+                filePath: devServerBundle,
+                fileContent: `${await TsModules.fileContent}\n// Rebuilt by Meteor`,
+            });
+            
+            expect(await getEntries(sharedCacheDir)).toHaveLength(2);
+        } finally {
+            await FS.rm(sharedCacheDir, { recursive: true, force: true });
+        }
+    });
+})
@@ -0,0 +1,72 @@
+import { build } from 'esbuild';
+import FS from 'fs';
+import OS from 'os';
+import Path from 'path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import { parseMeteorPackage } from '../src/meteor/parser/Parser';
+import { ParserError } from '../src/meteor/parser/ParserError';
+import { ParserPool } from '../src/meteor/parser/ParserPool';
+import { TsModules } from './__mocks';
+
+describe('ParserPool', () => {
+    const tempDir = FS.mkdtempSync(Path.join(OS.tmpdir(), 'meteor-vite-parser-pool-'));
+    const workerPath = Path.join(tempDir, 'parser-worker.cjs');
+    
+    // Worker threads can't load TypeScript, so the parser worker is bundled the same way it would be for the dist.
+    beforeAll(async () => {
+        await build({
+            entryPoints: [Path.join(__dirname, '../src/bin/parser-worker.ts')],
+            outfile: workerPath,
+            bundle: true,
+            platform: 'node',
+            format: 'cjs',
+            logLevel: 'silent',
+        });
+    });
+    
+    afterAll(() => {
+        FS.rmSync(tempDir, { recursive: true, force: true });
+    });
+    
+    test('parses on the main thread when threads are disabled', async () => {
+        const pool = new ParserPool(0);
+        const { result } = await pool.parse({ filePath: TsModules.filePath, fileContent: TsModules.fileContent });
+        const { result: expected } = await parseMeteorPackage({ filePath: TsModules.filePath, fileContent: TsModules.fileContent });
+        
+        expect(pool.enabled).toBe(false);
+        expect(result).toEqual(expected);
+    });
+    
+    test('falls back to the main thread if the worker script is missing', async () => {
+        const pool = new ParserPool(2, '/non-existent/parser-worker.mjs');
+        const { result } = await pool.parse({ filePath: TsModules.filePath, fileContent: TsModules.fileContent });
+        
+        expect(pool.enabled).toBe(false);
+        expect(result.name).toEqual(TsModules.packageName);
+    });
+    
+    test('parses packages on a worker thread', async () => {
+        const pool = new ParserPool(1, workerPath);
+        
+        try {
+            const { result } = await pool.parse({ filePath: TsModules.filePath, fileContent: TsModules.fileContent });
+            const { result: expected } = await parseMeteorPackage({ filePath: TsModules.filePath, fileContent: TsModules.fileContent });
+            
+            expect(pool.enabled).toBe(true);
+            expect(result).toEqual(JSON.parse(JSON.stringify(expected)));
+        } finally {
+            await pool.terminate();
+        }
+    });
+    
+    test('rejects pending tasks if the worker exits', async () => {
+        const exitingWorkerPath = Path.join(tempDir, 'exiting-worker.mjs');
+        FS.writeFileSync(exitingWorkerPath, 'process.exit(1);\n');
+        
+        const pool = new ParserPool(1, exitingWorkerPath);
+        const parse = pool.parse({ filePath: TsModules.filePath, fileContent: TsModules.fileContent });
+        
+        await expect(parse).rejects.toThrow(ParserError);
+        await expect(parse).rejects.toThrow(/exited with code 1/);
+    });
+})
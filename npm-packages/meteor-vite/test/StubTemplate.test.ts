@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import MeteorPackage from '../src/meteor/package/components/MeteorPackage';
-import { METEOR_STUB_KEY, PACKAGE_SCOPE_KEY, stubTemplate } from '../src/meteor/package/StubTemplate';
+import { METEOR_STUB_KEY, PACKAGE_SCOPE_KEY, STUB_VALIDATION_ENDPOINT, stubTemplate } from '../src/meteor/package/StubTemplate';
+import { TsModules } from './__mocks';
 
 describe('StubTemplate', () => {
     const meteorPackage = new MeteorPackage({
@@ -27,6 +28,17 @@ describe('StubTemplate', () => {
         expect(template).toContain(`export default ${METEOR_STUB_KEY}.default`)
     });
     
+    it('resolves the validation report endpoint against the Vite base path', () => {
+        const template = stubTemplate({
+            requestId: '',
+            meteorPackage,
+            importPath: 'defaultExport.js',
+            reportEndpoint: STUB_VALIDATION_ENDPOINT,
+        });
+        
+        expect(template).toContain(`new URL(import.meta.env.BASE_URL + "__meteor__/stub-validation", import.meta.url)`);
+    });
+    
     it(`does not create a package scope export key if it isn't necessary`, () => {
         const template = stubTemplate({
             requestId: '',
@@ -59,4 +71,76 @@ describe('StubTemplate', () => {
         expect(template).not.toContain('export default');
     });
     
-})
\ No newline at end of file
+    it('passes known export types on to the stub validator', () => {
+        const meteorPackage = new MeteorPackage({
+            packageId: 'meteor/exampleuser:foobar',
+            name: 'exampleuser:foobar',
+            packageScopeExports: {},
+            mainModulePath: '',
+            modules: {
+                'index.js': [
+                    { type: 'export', name: 'useFoo', valueType: 'function' },
+                    { type: 'export', name: 'FOO', valueType: 'string' },
+                    { type: 'export', name: 'unknown' },
+                ]
+            }
+        }, {
+            timeSpent: 'none',
+        });
+        const template = stubTemplate({
+            requestId: '',
+            meteorPackage,
+            importPath: 'index.js',
+        });
+        
+        expect(template).toContain(`"exportTypes":{"useFoo":"function","FOO":"string"}`);
+    });
+
+    it('imports wildcard re-exports within the package for validation', async () => {
+        const meteorPackage = await MeteorPackage.parse({
+            filePath: TsModules.filePath,
+            fileContent: TsModules.fileContent,
+        });
+        const template = stubTemplate({
+            requestId: '',
+            meteorPackage,
+        });
+        
+        expect(template).toContain(`import * as w0 from 'meteor/test:ts-modules/export-star-from';`);
+        expect(template).toContain(`"exportKeys":["ExportXInteger","ExportXString","ExportXObject"]`);
+        expect(template).toContain(`wildcardNamespaces: { "meteor/test:ts-modules/export-star-from": w0 }`);
+        expect(template).not.toContain(`import * as w1`);
+    });
+    
+    it('resolves wildcard re-exports relative to the module containing them', () => {
+        const meteorPackage = new MeteorPackage({
+            packageId: 'meteor/exampleuser:foobar',
+            name: 'exampleuser:foobar',
+            packageScopeExports: {},
+            mainModulePath: '',
+            modules: {
+                'lib/index.js': [
+                    { type: 're-export', name: '*', from: './utils' },
+                ],
+                'lib/utils.js': [
+                    { type: 'export', name: 'formatFoo', valueType: 'function' },
+                ],
+                'utils.js': [
+                    { type: 'export', name: 'rootUtility' },
+                ],
+            }
+        }, {
+            timeSpent: 'none',
+        });
+        const template = stubTemplate({
+            requestId: '',
+            meteorPackage,
+            importPath: 'lib/index.js',
+        });
+        
+        expect(template).toContain(`import * as w0 from 'meteor/exampleuser:foobar/lib/utils';`);
+        expect(template).toContain(`"exportKeys":["formatFoo"]`);
+        expect(template).not.toContain('rootUtility');
+    });
+
+})
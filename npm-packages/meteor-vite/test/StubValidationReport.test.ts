@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'vitest';
+import { isStubValidationReport } from '../src/meteor/IPC/methods/vite-server';
+
+describe('isStubValidationReport', () => {
+    test('accepts reports sent by the stub validator', () => {
+        expect(isStubValidationReport({
+            packageName: 'ostrio:cookies',
+            requestId: 'abc123',
+            failures: [
+                { type: 'UndefinedExportException', message: 'Export is undefined', exportName: 'Cookies' },
+                { type: 'ImportException', message: 'Unable to import package' },
+            ],
+        })).toBe(true);
+    });
+    
+    test.each([
+        'foo',
+        null,
+        [],
+        { packageName: 'ostrio:cookies' },
+        { packageName: 'ostrio:cookies', requestId: 'abc123', failures: 'none' },
+        { packageName: 1, requestId: 'abc123', failures: [] },
+        { packageName: 'ostrio:cookies', requestId: 'abc123', failures: [null] },
+        { packageName: 'ostrio:cookies', requestId: 'abc123', failures: [{ type: 'ImportException' }] },
+        { packageName: 'ostrio:cookies', requestId: 'abc123', failures: [{ type: 'ImportException', message: 'Failed', exportName: {} }] },
+    ])('rejects malformed reports: %j', (report) => {
+        expect(isStubValidationReport(report)).toBe(false);
+    });
+});
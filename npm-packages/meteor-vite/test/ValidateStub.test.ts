@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { validateStub } from '../src/client/ValidateStub';
+
+describe('ValidateStub', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    
+    const options = {
+        requestId: 'test',
+        packageName: 'exampleuser:foobar',
+        exportKeys: ['useFoo', 'Foo', 'FOO'],
+        exportTypes: { useFoo: 'function', Foo: 'class', FOO: 'string' } as const,
+    };
+    
+    it('accepts exports matching their expected types', () => {
+        const stub = { useFoo: () => {}, Foo: class Foo {}, FOO: 'foo' };
+        
+        expect(() => validateStub(stub, options)).not.toThrow();
+    });
+    
+    it('throws when an export has an unexpected type', () => {
+        const stub = { useFoo: {}, Foo: class Foo {}, FOO: 'foo' };
+        
+        expect(() => validateStub(stub, options)).toThrow('expected function, got object');
+    });
+    
+    it('only validates types for exports with a known type', () => {
+        const stub = { useFoo: () => {}, Foo: class Foo {}, FOO: 'foo', bar: 1 };
+        
+        expect(() => validateStub(stub, { ...options, exportKeys: [...options.exportKeys, 'bar'] })).not.toThrow();
+    });
+    
+    it('validates exports from wildcard re-exports', () => {
+        const stub = { useFoo: () => {}, Foo: class Foo {}, FOO: 'foo' };
+        const wildcardOptions = {
+            ...options,
+            wildcardReExports: [{ from: 'meteor/exampleuser:foobar/utils', exportKeys: ['formatFoo'] }],
+        };
+        
+        expect(() => validateStub(stub, wildcardOptions, {
+            wildcardNamespaces: { 'meteor/exampleuser:foobar/utils': { formatFoo: () => {} } },
+        })).not.toThrow();
+        expect(() => validateStub(stub, wildcardOptions, {
+            wildcardNamespaces: { 'meteor/exampleuser:foobar/utils': {} },
+        })).toThrow(`export 'formatFoo' (re-exported from 'meteor/exampleuser:foobar/utils') is undefined`);
+    });
+    
+    it('forwards failures to the dev server when a report URL is provided', () => {
+        const fetch = vi.fn(() => Promise.resolve());
+        vi.stubGlobal('fetch', fetch);
+        
+        const stub = { useFoo: {}, Foo: class Foo {}, FOO: 'foo' };
+        const reportUrl = 'http://localhost:5173/__meteor__/stub-validation';
+        
+        expect(() => validateStub(stub, options, { reportUrl })).toThrow();
+        expect(fetch).toHaveBeenCalledOnce();
+        
+        const [url, request] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+        
+        expect(url).toEqual(reportUrl);
+        expect(JSON.parse(request.body as string)).toEqual({
+            packageName: 'exampleuser:foobar',
+            requestId: 'test',
+            failures: [{
+                type: 'ExportTypeMismatchException',
+                message: expect.stringContaining('expected function, got object'),
+                exportName: 'useFoo',
+            }],
+        });
+        
+        vi.unstubAllGlobals();
+    });
+})
@@ -10,14 +10,14 @@ export const TsModules = prepareMock({
     fileName: 'test_ts-modules.js',
     modules: {
         'explicit-relative-path.ts': [
-            { type: 'export', name: 'ExplicitRelativePath' },
+            { type: 'export', name: 'ExplicitRelativePath', valueType: 'string' },
         ],
         'index.ts': [
-            { type: 'export', name: 'first' },
-            { type: 'export', name: 'FIRST' },
-            { type: 'export', name: 'b' },
-            { type: 'export', name: 'c' },
-            { type: 'export', name: 'namedFunction' },
+            { type: 'export', name: 'first', valueType: 'string' },
+            { type: 'export', name: 'FIRST', valueType: 'string' },
+            { type: 'export', name: 'b', valueType: 'number' },
+            { type: 'export', name: 'c', valueType: 'number' },
+            { type: 'export', name: 'namedFunction', valueType: 'function' },
             { type: 're-export', name: 'Meteor', as: 'MyMeteor', from: 'meteor/meteor', id: 0 },
             { type: 're-export', name: '*', from: 'meteor/tracker', id: 1 },
             { type: 're-export', name: 'Meteor', as: 'ReExportedMeteor', from: 'meteor/meteor', id: 2 },
@@ -25,26 +25,26 @@ export const TsModules = prepareMock({
             { type: 're-export', name: 'NamedRelativeInteger', from: './relative-module', id: 4 },
             { type: 're-export', name: '*', from: './export-star-from', id: 5 },
             { name: 'WhereAmI', type: 're-export', id: 6, from: './subdirectory/module-in-subdirectory', as: 'WhereIsTheSubmodule' },
-            { type: 'export-default', name: 'namedFunction' },
+            { type: 'export-default', name: 'namedFunction', valueType: 'function' },
         ],
         'export-star-from.ts': [
-            { type: 'export', name: 'ExportXInteger' },
-            { type: 'export', name: 'ExportXString' },
-            { type: 'export', name: 'ExportXObject' },
+            { type: 'export', name: 'ExportXInteger', valueType: 'number' },
+            { type: 'export', name: 'ExportXString', valueType: 'string' },
+            { type: 'export', name: 'ExportXObject', valueType: 'object' },
         ],
         're-exports-index.ts': [
             { type: 're-export', name: 'DefaultReExport', as: 'default', from: './re-exports-source', id: 0 },
             { type: 're-export', name: 'NamedReExport', from: './re-exports-source', id: 0 },
         ],
         're-exports-source.ts': [
-            { type: 'export', name: 'DefaultReExport' },
-            { type: 'export', name: 'NamedReExport' },
+            { type: 'export', name: 'DefaultReExport', valueType: 'string' },
+            { type: 'export', name: 'NamedReExport', valueType: 'string' },
         ],
         'relative-module.ts': [
-            { type: 'export', name: 'NamedRelativeInteger' },
+            { type: 'export', name: 'NamedRelativeInteger', valueType: 'number' },
         ],
         'subdirectory/module-in-subdirectory.ts': [
-            { type: 'export', name: 'WhereAmI' }
+            { type: 'export', name: 'WhereAmI', valueType: 'string' }
         ]
     } satisfies ModuleList,
     packageScopeExports: {},
@@ -56,12 +56,12 @@ export const Check = prepareMock({
     fileName: 'check.js',
     modules: {
         'match.js': [
-            { name: 'check', type: 'export' },
-            { name: 'Match', type: 'export' },
+            { name: 'check', type: 'export', valueType: 'function' },
+            { name: 'Match', type: 'export', valueType: 'object' },
             { name: 'isPlainObject', type: 'global-binding', id: 0, from: './isPlainObject' }
         ],
         'isPlainObject.js': [
-            { name: 'isPlainObject', type: 'export' }
+            { name: 'isPlainObject', type: 'export', valueType: 'function' }
         ]
     },
     packageScopeExports: {
@@ -114,7 +114,7 @@ export const ReactMeteorData = prepareMock({
             { type: 'export', name: 'useTracker' },
         ],
         'withTracker.tsx': [
-            { type: 'export', name: 'withTracker' },
+            { type: 'export', name: 'withTracker', valueType: 'function' },
         ]
     },
     mainModulePath: '',
@@ -125,7 +125,7 @@ export const TestLazy = prepareMock({
     fileName: 'test_lazy.js',
     modules: {
         'index.js': [
-            { type: 'export', name: 'MEOWMEOW' },
+            { type: 'export', name: 'MEOWMEOW', valueType: 'number' },
         ]
     },
     packageScopeExports: {},
@@ -137,7 +137,7 @@ export const OstrioCookies = prepareMock({
     fileName: 'ostrio_cookies.js',
     modules: {
         'cookies.js': [
-            { type: 'export', name: 'Cookies' },
+            { type: 'export', name: 'Cookies', valueType: 'class' },
             { type: 'global-binding', name: 'Meteor', from: 'meteor/meteor', id: 0 }
         ]
     },
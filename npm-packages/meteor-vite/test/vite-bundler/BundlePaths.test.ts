@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'vitest';
+import { getAssetPath, getBundleArch } from '../../../../packages/vite-bundler/plugin/BundlePaths';
+
+describe('vite-bundler: BundlePaths', () => {
+    const bundleDir = 'client/_vite-bundle';
+    
+    describe('getBundleArch', () => {
+        test('files within an arch bundle', () => {
+            expect(getBundleArch(bundleDir, 'client/_vite-bundle/web.browser.legacy/meteor-entry.js')).toEqual('web.browser.legacy');
+        });
+        
+        test('files at the root of the bundle directory', () => {
+            expect(getBundleArch(bundleDir, 'client/_vite-bundle/meteor-entry.js')).toBeUndefined();
+        });
+        
+        test('files outside the bundle directory', () => {
+            expect(getBundleArch(bundleDir, 'client/main.js')).toBeUndefined();
+        });
+    });
+    
+    describe('getAssetPath', () => {
+        test('assets share the same path for every arch', () => {
+            expect(getAssetPath(bundleDir, 'client/_vite-bundle/web.browser/assets/logo-4f1c2a.svg')).toEqual('__meteor-vite/assets/logo-4f1c2a.svg');
+            expect(getAssetPath(bundleDir, 'client/_vite-bundle/web.browser.legacy/assets/logo-4f1c2a.svg')).toEqual('__meteor-vite/assets/logo-4f1c2a.svg');
+        });
+        
+        test('stylesheets keep their location relative to the assets they reference', () => {
+            expect(getAssetPath(bundleDir, 'client/_vite-bundle/web.browser/assets/style-9d3e1b.css')).toEqual('__meteor-vite/assets/style-9d3e1b.css');
+        });
+        
+        test('files at the root of the bundle directory are left as-is', () => {
+            expect(getAssetPath(bundleDir, 'client/_vite-bundle/meteor-entry.js')).toEqual('client/_vite-bundle/meteor-entry.js');
+        });
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'vitest';
+import { matchesRoutePrefix, resolveClientEntry } from '../../../../packages/vite-bundler/utility/EntryRoutes';
+
+describe('vite-bundler: EntryRoutes', () => {
+    describe('matchesRoutePrefix', () => {
+        test('matches whole path segments', () => {
+            expect(matchesRoutePrefix('/admin', '/admin')).toBe(true);
+            expect(matchesRoutePrefix('/admin/users', '/admin')).toBe(true);
+            expect(matchesRoutePrefix('/administrator', '/admin')).toBe(false);
+        });
+        
+        test('prefixes with a trailing slash', () => {
+            expect(matchesRoutePrefix('/admin', '/admin/')).toBe(true);
+            expect(matchesRoutePrefix('/admin/users', '/admin/')).toBe(true);
+            expect(matchesRoutePrefix('/administrator', '/admin/')).toBe(false);
+        });
+        
+        test('root prefix matches every path', () => {
+            expect(matchesRoutePrefix('/', '/')).toBe(true);
+            expect(matchesRoutePrefix('/admin', '/')).toBe(true);
+        });
+    });
+    
+    describe('resolveClientEntry', () => {
+        const config = {
+            entryFile: {
+                app: 'meteor-entry-app.js',
+                admin: 'meteor-entry-admin.js',
+                reports: 'meteor-entry-reports.js',
+            },
+            entryRoutes: {
+                '/admin': 'admin',
+                '/admin/reports': 'reports',
+                '/': 'app',
+            },
+        };
+        
+        test('single entries are loaded for every path', () => {
+            expect(resolveClientEntry({ entryFile: 'meteor-entry.js' }, '/admin')).toEqual('meteor-entry.js');
+        });
+        
+        test('the longest matching prefix wins', () => {
+            expect(resolveClientEntry(config, '/admin/users')).toEqual('meteor-entry-admin.js');
+            expect(resolveClientEntry(config, '/admin/reports/2024')).toEqual('meteor-entry-reports.js');
+        });
+        
+        test('prefixes respect path segment boundaries', () => {
+            expect(resolveClientEntry(config, '/administrator')).toEqual('meteor-entry-app.js');
+        });
+        
+        test('falls back to the first entry if no prefix matches', () => {
+            expect(resolveClientEntry({ ...config, entryRoutes: { '/admin': 'admin' } }, '/dashboard')).toEqual('meteor-entry-app.js');
+        });
+    });
+});
@@ -2,23 +2,43 @@ import path from 'node:path';
 import fs from 'fs-extra';
 import { cwd } from './workers';
 import Logger from './utility/Logger';
-import Compiler, { BUNDLE_FILE_EXTENSION } from './plugin/Compiler';
+import Compiler, {
+  BUNDLE_FILE_EXTENSION,
+  CLIENT_REBUILD_MODULE,
+  CORDOVA_ARCH,
+  DevCompiler,
+  ENTRY_MODULE,
+  type EntryRouterConfig,
+  LEGACY_ARCH,
+  MODERN_ARCH,
+} from './plugin/Compiler';
 import { Meteor } from 'meteor/meteor';
+import { MeteorViteError } from './utility/Errors';
 import { getBuildConfig, posixPath } from './utility/Helpers';
-import { prepareViteBundle, ViteBundleOutput } from './plugin/IntermediaryMeteorProject';
+import { writeBuildReport } from './plugin/BuildReport';
+import { prepareViteBundle, type ViteBundleOutput } from './plugin/IntermediaryMeteorProject';
+import { enforceSizeBudgets } from './plugin/SizeBudgets';
+import { transpileViteBundle } from './plugin/Transpiler';
 
 const {
   meteorMainModule,
+  meteorServerMainModule,
   isSimulatedProduction,
   viteOutSrcDir,
+  viteOutServerDir,
   pluginEnabled,
 } = getBuildConfig();
 
+/**
+ * Path to the Vite bundle within the Meteor project, as seen by our compiler plugin.
+ */
+const bundleDir = posixPath(path.relative(cwd, viteOutSrcDir));
+
 // Empty stubs from any previous builds
 if (pluginEnabled) {
   fs.ensureDirSync(viteOutSrcDir);
   fs.writeFileSync(
-      path.join(viteOutSrcDir, `meteor-entry.js.${BUNDLE_FILE_EXTENSION}`),
+      path.join(viteOutSrcDir, `${ENTRY_MODULE}.${BUNDLE_FILE_EXTENSION}`),
       `// Stub file for Meteor-Vite\n`, 'utf8'
   );
 }
@@ -28,8 +48,24 @@ if (!pluginEnabled) {
 }
 
 // In development, clients will connect to the Vite development server directly. So there is no need for Meteor
-// to do any work.
-else if (process.env.NODE_ENV === 'production') {
+// to do any work, apart from rebuilding the client when vite-bundler updates the client rebuild module.
+else if (process.env.NODE_ENV !== 'production') {
+  const rebuildModule = path.join(viteOutSrcDir, `${CLIENT_REBUILD_MODULE}.${BUNDLE_FILE_EXTENSION}`);
+  
+  // Add .gitignore file to prevent the generated modules from being committed accidentally.
+  fs.writeFileSync(path.join(viteOutSrcDir, '.gitignore'), '/**');
+  
+  if (!fs.existsSync(rebuildModule)) {
+    fs.writeFileSync(rebuildModule, `// Updated by vite-bundler to have Meteor rebuild the client\n`, 'utf8');
+  }
+  
+  Plugin.registerCompiler({
+    extensions: [BUNDLE_FILE_EXTENSION],
+    filenames: [],
+  }, () => new DevCompiler(bundleDir));
+}
+
+else {
   const bundle = build();
   
   try {
@@ -38,7 +74,7 @@ else if (process.env.NODE_ENV === 'production') {
       Plugin.registerCompiler({
         extensions: [BUNDLE_FILE_EXTENSION],
         filenames: [],
-      }, () => bundle.then(() => new Compiler()));
+      }, () => bundle.then(() => new Compiler(bundleDir)));
       
       await bundle;
     }
@@ -49,7 +85,7 @@ else if (process.env.NODE_ENV === 'production') {
       Plugin.registerCompiler({
         extensions: [BUNDLE_FILE_EXTENSION],
         filenames: [],
-      }, () => new Compiler());
+      }, () => new Compiler(bundleDir));
     }
     
     Logger.success('Build completed');
@@ -60,15 +96,89 @@ else if (process.env.NODE_ENV === 'production') {
 }
 
 async function build() {
-  const { payload, entryAsset } = await prepareViteBundle();
+  const { bundles, server } = await prepareViteBundle(getClientArchs());
+  writeBuildReport(server ? [...bundles, server] : bundles);
+  enforceSizeBudgets(bundles);
+  
+  // Clear out bundles from previous builds, including any archs that might since have been excluded
+  fs.emptyDirSync(viteOutSrcDir);
+  fs.removeSync(viteOutServerDir);
   
   // Transpile and push the Vite bundle into the Meteor project's source directory
-  transpileViteBundle({ payload });
+  for (const { payload, arch } of bundles) {
+    transpileViteBundle({ payload, arch });
+  }
+  
+  // Placeholder for the module that imports the bundle of the arch being built. Compiler replaces it with a router
+  // generated from the entries and routes written here.
+  const entryRouter = `${path.join(viteOutSrcDir, ENTRY_MODULE)}.${BUNDLE_FILE_EXTENSION}`;
+  fs.writeFileSync(entryRouter, JSON.stringify(getEntryRouterConfig(bundles[0])), 'utf8');
   
+  const restoreMainModule = injectBundleImport(meteorMainModule, entryRouter);
   
+  Compiler.addCleanupHandler(() => {
+    if (isSimulatedProduction) return;
+    fs.removeSync(viteOutSrcDir);
+    restoreMainModule();
+  });
+  
+  if (server) {
+    buildServerEntry(server);
+  }
+}
+
+/**
+ * Entry chunks are named after their key in the clientEntry config, and get the same file name for every arch.
+ * So the modern bundle can be used to describe the entries of all archs.
+ */
+function getEntryRouterConfig({ payload, entryAssets }: ViteBundleOutput): EntryRouterConfig {
+  const { clientEntry, entryRoutes } = payload.meteorViteConfig;
+  
+  // Keep the order of the clientEntry config so its first entry remains the default.
+  const entryNames = typeof clientEntry === 'string' ? [] : Object.keys(clientEntry);
+  const sortedAssets = [...entryAssets].sort((a, b) => entryNames.indexOf(a.name || '') - entryNames.indexOf(b.name || ''));
+  
+  return {
+    entries: Object.fromEntries(sortedAssets.map(({ name, fileName }) => [name || fileName, fileName])),
+    routes: entryRoutes || {},
+  };
+}
+
+/**
+ * Push the Vite SSR bundle into the Meteor project's server directory, along with a module that registers its
+ * render function with the vite-bundler package.
+ */
+function buildServerEntry({ payload, arch }: ViteBundleOutput) {
+  if (!meteorServerMainModule) {
+    throw new MeteorViteError('A serverEntry is configured for Vite, but no server mainModule was found. Please add meteor.mainModule.server to your package.json');
+  }
+  
+  transpileViteBundle({ payload, arch, bundleDir: viteOutServerDir });
+  
+  const registerModule = path.join(viteOutServerDir, `register-server-entry.js.${BUNDLE_FILE_EXTENSION}`);
+  const entryImportPath = JSON.stringify(`./${arch}/server-entry.js`);
+  fs.writeFileSync(registerModule, [
+      `const { registerServerEntry } = require('meteor/jorgenvatle:vite-bundler');`,
+      `registerServerEntry(require(${entryImportPath}));`,
+  ].join('\n'), 'utf8');
+  
+  const restoreMainModule = injectBundleImport(meteorServerMainModule, registerModule);
+  
+  Compiler.addCleanupHandler(() => {
+    if (isSimulatedProduction) return;
+    fs.removeSync(viteOutServerDir);
+    restoreMainModule();
+  });
+}
+
+/**
+ * Patch the provided Meteor mainModule with an import for a module from the Vite bundle.
+ * @returns Function to restore the mainModule to its original content.
+ */
+function injectBundleImport(mainModule: string, bundleModule: string) {
   const importPath = path.relative(
-      path.resolve(meteorMainModule, '..'),
-      `${path.join(viteOutSrcDir, entryAsset.fileName)}.${BUNDLE_FILE_EXTENSION}`
+      path.resolve(mainModule, '..'),
+      bundleModule,
   );
   const moduleImportPath = posixPath(`./${importPath}`);
   const meteorViteImport = `import ${JSON.stringify(moduleImportPath)};`
@@ -86,11 +196,11 @@ ${meteorViteImport}
 
 `.trimLeft();
   
-  Logger.debug('Injecting import for Vite bundle', { moduleImportPath, meteorMainModule, viteOutSrcDir });
+  Logger.debug('Injecting import for Vite bundle', { moduleImportPath, mainModule });
   
   // Patch project's meteor entry with import for meteor-vite's entry module.
   // in node_modules/meteor-vite/temp
-  const meteorEntry = path.join(cwd, meteorMainModule)
+  const meteorEntry = path.join(cwd, mainModule)
   const originalEntryContent = fs.readFileSync(meteorEntry, 'utf8');
   let originalEntryPatched = false;
   const oldEntryImports = [
@@ -108,49 +218,42 @@ ${meteorViteImport}
     originalEntryPatched = true;
   }
   
-  // Import the Vite client bundle in the source project's client main module if it isn't already included.
+  // Import the Vite bundle in the source project's mainModule if it isn't already included.
   if (!originalEntryContent.includes(moduleImportPath) && !originalEntryPatched) {
     fs.writeFileSync(meteorEntry, `${meteorViteImportTemplate}\n${originalEntryContent}`, 'utf8')
   }
   
-  Compiler.addCleanupHandler(() => {
-    if (isSimulatedProduction) return;
-    fs.removeSync(viteOutSrcDir);
-    fs.writeFileSync(meteorEntry, originalEntryContent, 'utf8');
-  });
+  return () => fs.writeFileSync(meteorEntry, originalEntryContent, 'utf8');
 }
 
-function transpileViteBundle({ payload }: Pick<ViteBundleOutput, 'payload'>) {
-  const profile = Logger.startProfiler();
-  Logger.info('Transpiling Vite bundle for Meteor...');
+/**
+ * Client architectures to build a Vite bundle for.
+ * Legacy browsers get their own bundle unless the arch is excluded using Meteor's `--exclude-archs` flag.
+ * Projects with a mobile platform in .meteor/platforms also get a bundle for Cordova.
+ */
+function getClientArchs() {
+  const flagIndex = process.argv.findIndex((arg) => arg.startsWith('--exclude-archs'));
+  const flag = process.argv[flagIndex] || '';
+  const flagValue = flag.includes('=') ? flag.split('=')[1] : process.argv[flagIndex + 1];
+  const excludedArchs = flagIndex === -1 ? [] : (flagValue || '').split(/[\s,]+/);
+  const archs = [MODERN_ARCH, LEGACY_ARCH];
   
-  fs.ensureDirSync(viteOutSrcDir)
-  fs.emptyDirSync(viteOutSrcDir)
+  if (hasCordovaPlatform()) {
+    archs.push(CORDOVA_ARCH);
+  }
   
-  // Add .gitignore file to prevent the transpiled bundle from being committed accidentally.
-  fs.writeFileSync(path.join(viteOutSrcDir, '.gitignore'), '/**');
+  // The modern bundle is always needed as it's used as a fallback for archs without a dedicated bundle.
+  return archs.filter((arch) => arch === MODERN_ARCH || !excludedArchs.includes(arch));
+}
+
+function hasCordovaPlatform() {
+  const platformsFile = path.join(cwd, '.meteor', 'platforms');
   
-  for (const { fileName: file } of payload.output) {
-    const from = path.join(payload.outDir, file)
-    const to = path.join(viteOutSrcDir, `${file}.${BUNDLE_FILE_EXTENSION}`);
-    fs.ensureDirSync(path.dirname(to))
-    
-    if (path.extname(from) === '.js') {
-      // Transpile to Meteor target (Dynamic import support)
-      // @TODO don't use Babel
-      const source = fs.readFileSync(from, 'utf8')
-      const babelOptions = Babel.getDefaultOptions()
-      babelOptions.babelrc = true
-      babelOptions.sourceMaps = true
-      babelOptions.filename = babelOptions.sourceFileName = from
-      const transpiled = Babel.compile(source, babelOptions, {
-        cacheDirectory: path.join(cwd, 'node_modules', '.babel-cache'),
-      })
-      fs.writeFileSync(to, transpiled.code, 'utf8')
-    } else {
-      fs.copyFileSync(from, to)
-    }
+  if (!fs.existsSync(platformsFile)) {
+    return false;
   }
   
-  profile.complete('Transpile completed');
+  return fs.readFileSync(platformsFile, 'utf8').split('\n').some((line) => {
+    return ['ios', 'android'].includes(line.trim());
+  });
 }
@@ -2,16 +2,15 @@
 // Todo: omit this module entirely in production build to save space
 
 import { Meteor } from 'meteor/meteor';
-import { Tracker } from 'meteor/tracker';
 import {
     getConfig,
     DevConnectionLog,
+    DevSplashScreen,
     RuntimeConfig,
     ViteConnection,
     VITE_ENTRYPOINT_SCRIPT_ID, ViteDevScripts,
 } from './loading/vite-connection-handler';
 
-let subscription: Meteor.SubscriptionHandle;
 let initialConfig: RuntimeConfig;
 
 
@@ -40,6 +39,9 @@ function onReady(config: RuntimeConfig) {
     }
     
     new ViteDevScripts(config).injectScriptsInDOM();
+    
+    // Only refresh for config changes made after Vite was loaded.
+    initialConfig = config;
     return;
 }
 
@@ -69,59 +71,30 @@ function hasLoadedVite() {
     return !!document.getElementById(VITE_ENTRYPOINT_SCRIPT_ID);
 }
 
-Meteor.startup(() => {
+Meteor.startup(async () => {
     if (!Meteor.isDevelopment) {
         return;
     }
     
-    Tracker.autorun(function() {
-        subscription = Meteor.subscribe(ViteConnection.publication);
-        const config = getConfig();
-        if (!initialConfig && subscription.ready()) {
-            config.then((config) => initialConfig = config);
-        }
-        
+    initialConfig = await getConfig();
+    DevConnectionLog.debug('Received Vite connection config', initialConfig);
+    DevSplashScreen.setStatus(initialConfig.status);
+    watchConfig(initialConfig);
+    
+    // The stream reconnects by itself whenever the Meteor server restarts, emitting the config it starts up with.
+    const configEvents = new EventSource(ViteConnection.url('configEvents'));
+    configEvents.onmessage = (event) => {
+        const config: RuntimeConfig = JSON.parse(event.data);
         DevConnectionLog.debug('Vite connection config changed', config);
-        
-        if (!initialConfig) {
-            return;
-        }
-        
-        getConfig().then((config) => {
-            watchConfig(config);
-        })
+        DevSplashScreen.setStatus(config.status);
+        watchConfig(config);
+    };
+    configEvents.addEventListener('reload', () => {
+        DevConnectionLog.info('Meteor has been rebuilt with new packages. Reloading...');
+        window.location.reload();
     });
-    
-    if (!hasLoadedVite()) {
-        forceConfigRefresh();
-    }
 });
 
-/**
- * Failsafe to force a refresh of the server's runtime config.
- */
-function forceConfigRefresh() {
-    const forceRefreshAfter = 5 * 1000 // 5 seconds
-    const interval = setInterval(async () => {
-        let config = await getConfig();
-        const lastUpdateMs = Date.now() - config.lastUpdate;
-        if (lastUpdateMs < forceRefreshAfter) {
-            return;
-        }
-        if (hasLoadedVite()) {
-            clearInterval(interval);
-            return;
-        }
-        config = await Meteor.callAsync(ViteConnection.methods.refreshConfig);
-        
-        if (!config) {
-            DevConnectionLog.error('Received empty Vite runtime config from server!');
-            return;
-        }
-        watchConfig(config);
-    }, 2500);
-}
-
 declare global {
     interface Window {
         __METEOR_VITE_STARTUP__?: boolean;
@@ -1 +1 @@
-export { MeteorViteConfig } from './loading/vite-connection-handler';
\ No newline at end of file
+export type { RuntimeConfig } from './loading/vite-connection-handler';
\ No newline at end of file
@@ -0,0 +1,104 @@
+import FS from 'fs';
+import type HTTP from 'http';
+import { WebApp, WebAppInternals } from 'meteor/webapp';
+import Path from 'path';
+
+/**
+ * Path assets from the production Vite bundle are served under. This needs to match the path assets are added to
+ * the client bundle with by our compiler plugin, and the path used for asset URLs in the Vite build.
+ */
+const BUNDLE_ASSETS_PATH = '/__meteor-vite/';
+
+/**
+ * Asset file names are content-hashed by Vite, so they can be cached indefinitely.
+ */
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.avif': 'image/avif',
+    '.gif': 'image/gif',
+    '.ico': 'image/x-icon',
+    '.jpeg': 'image/jpeg',
+    '.jpg': 'image/jpeg',
+    '.json': 'application/json',
+    '.mp3': 'audio/mpeg',
+    '.mp4': 'video/mp4',
+    '.otf': 'font/otf',
+    '.png': 'image/png',
+    '.svg': 'image/svg+xml',
+    '.ttf': 'font/ttf',
+    '.txt': 'text/plain',
+    '.wasm': 'application/wasm',
+    '.webm': 'video/webm',
+    '.webp': 'image/webp',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+};
+
+/**
+ * Serve assets from the production Vite bundle with immutable cache headers, and have asset URLs in the bundle
+ * point to the CDN set with the METEOR_VITE_ASSETS_URL environment variable if there is one.
+ * Meteor's own static file handler only marks files as cacheable when they're requested with their hash.
+ */
+export function setupBundleAssets() {
+    if (process.env.METEOR_VITE_ASSETS_URL) {
+        __meteor_runtime_config__.VITE_ASSETS_URL = process.env.METEOR_VITE_ASSETS_URL;
+    }
+    
+    // Raw handlers run before Meteor strips the ROOT_URL path prefix from requests.
+    const pathPrefix = __meteor_runtime_config__.ROOT_URL_PATH_PREFIX || '';
+    
+    WebApp.rawConnectHandlers.use(`${pathPrefix}${BUNDLE_ASSETS_PATH}`, (req: AssetRequest, res, next) => {
+        const pathname = decodePathname(req.originalUrl);
+        
+        if (pathname === undefined) {
+            return next();
+        }
+        
+        const file = findStaticFile(pathname.slice(pathPrefix.length));
+        
+        if (!file || !['GET', 'HEAD'].includes(req.method || '')) {
+            return next();
+        }
+        
+        res.writeHead(200, {
+            'Content-Type': CONTENT_TYPES[Path.extname(pathname).toLowerCase()] || 'application/octet-stream',
+            'Content-Length': FS.statSync(file.absolutePath).size,
+            'Cache-Control': CACHE_CONTROL,
+            'Access-Control-Allow-Origin': '*',
+        });
+        
+        if (req.method === 'HEAD') {
+            return res.end();
+        }
+        
+        FS.createReadStream(file.absolutePath).pipe(res);
+    });
+}
+
+/**
+ * Malformed percent-encoding in the request URL is left for Meteor's own handlers to respond to.
+ */
+function decodePathname(url = '/') {
+    try {
+        return decodeURIComponent(new URL(url, 'http://localhost').pathname);
+    } catch (error) {
+        return;
+    }
+}
+
+/**
+ * Assets are added to every client arch Vite has built a bundle for. Content-hashed file names are identical for
+ * all archs when the content is, so we can serve the asset from whichever arch has it.
+ */
+function findStaticFile(pathname: string) {
+    for (const files of Object.values(WebAppInternals.staticFilesByArch)) {
+        const file = files[pathname];
+        
+        if (file) {
+            return file;
+        }
+    }
+}
+
+type AssetRequest = HTTP.IncomingMessage & { originalUrl?: string };
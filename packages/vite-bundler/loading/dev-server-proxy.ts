@@ -0,0 +1,91 @@
+import HTTP from 'http';
+import Net from 'net';
+import { WebApp } from 'meteor/webapp';
+import { DevConnectionLog, getConfig } from './vite-connection-handler';
+
+/**
+ * Path the Vite dev server is served under. This needs to match the base path the Vite server is configured with.
+ */
+const DEV_SERVER_PROXY_PREFIX = '/__vite/';
+
+/**
+ * Forward requests for the Vite dev server through the Meteor server's own port, including upgrades for Vite's
+ * HMR WebSocket. Paths are left untouched as Vite is served with the proxy prefix as its base path.
+ */
+export function setupDevServerProxy() {
+    WebApp.rawConnectHandlers.use(DEV_SERVER_PROXY_PREFIX, async (req: ProxyRequest, res) => {
+        const target = await getProxyTarget();
+        
+        if (!target) {
+            res.writeHead(503);
+            res.end('Vite dev server is not ready yet');
+            return;
+        }
+        
+        const proxyRequest = HTTP.request({
+            ...target,
+            method: req.method,
+            path: req.originalUrl,
+            headers: req.headers,
+        }, (proxyResponse) => {
+            res.writeHead(proxyResponse.statusCode || 502, proxyResponse.headers);
+            proxyResponse.pipe(res);
+        });
+        
+        proxyRequest.on('error', (error) => {
+            DevConnectionLog.error(`Unable to proxy request to Vite dev server: ${req.originalUrl}`, error);
+            if (!res.headersSent) {
+                res.writeHead(502);
+            }
+            res.end();
+        });
+        
+        req.pipe(proxyRequest);
+    });
+    
+    WebApp.httpServer.on('upgrade', async (req: HTTP.IncomingMessage, socket: Net.Socket, head: Buffer) => {
+        if (!req.url?.startsWith(DEV_SERVER_PROXY_PREFIX)) {
+            return;
+        }
+        
+        const target = await getProxyTarget();
+        
+        if (!target) {
+            socket.destroy();
+            return;
+        }
+        
+        const proxySocket = Net.connect(target.port, target.hostname, () => {
+            const headers = [];
+            for (let i = 0; i < req.rawHeaders.length; i += 2) {
+                headers.push(`${req.rawHeaders[i]}: ${req.rawHeaders[i + 1]}`);
+            }
+            
+            proxySocket.write([`${req.method} ${req.url} HTTP/${req.httpVersion}`, ...headers, '', ''].join('\r\n'));
+            proxySocket.write(head);
+            proxySocket.pipe(socket);
+            socket.pipe(proxySocket);
+        });
+        
+        proxySocket.on('error', () => socket.destroy());
+        socket.on('error', () => proxySocket.destroy());
+    });
+}
+
+async function getProxyTarget() {
+    const { ready, serverUrl } = await getConfig();
+    
+    if (!ready) {
+        return;
+    }
+    
+    const { hostname, port } = new URL(serverUrl);
+    
+    return {
+        // Strip brackets from IPv6 addresses
+        hostname: hostname.replace(/^\[|]$/g, ''),
+        port: Number(port),
+    };
+}
+
+type ProxyRequest = HTTP.IncomingMessage & { originalUrl?: string };
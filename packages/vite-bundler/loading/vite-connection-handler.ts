@@ -1,24 +1,49 @@
 import { WorkerResponseData } from 'meteor-vite';
 import { Meteor } from 'meteor/meteor';
-import { Mongo } from 'meteor/mongo';
+import { resolveClientEntry } from '../utility/EntryRoutes';
 
-export type RuntimeConfig = WorkerResponseData<'viteConfig'> & { ready: boolean, lastUpdate: number, baseUrl: string };
-export let MeteorViteConfig: Mongo.Collection<RuntimeConfig>;
+export type RuntimeConfig = WorkerResponseData<'viteConfig'> & {
+    ready: boolean,
+    lastUpdate: number,
+    
+    /**
+     * URL for browsers to load Vite from. Relative to the Meteor server when the Vite dev server is proxied.
+     */
+    baseUrl: string,
+    
+    /**
+     * URL for the Meteor server to reach the Vite dev server at.
+     */
+    serverUrl: string,
+    
+    /**
+     * Latest status reported by the Vite dev server, if it was started by this Meteor instance.
+     */
+    status?: WorkerStatus,
+};
+export type WorkerStatus = WorkerResponseData<'workerStatus'>;
 export const VITE_ENTRYPOINT_SCRIPT_ID = 'meteor-vite-entrypoint-script';
 export const VITE_CLIENT_SCRIPT_ID = 'meteor-vite-client';
 export class ViteDevScripts {
     public readonly urls;
-    constructor(public readonly config: RuntimeConfig) {
+    
+    /**
+     * @param pathname URL path of the page being loaded. Used to pick the entry to load when using named client entries.
+     */
+    constructor(public readonly config: RuntimeConfig, pathname = Meteor.isClient ? window.location.pathname : '/') {
         const { baseUrl } = config;
         
         this.urls = {
             baseUrl,
-            entrypointUrl: `${baseUrl}/${config.entryFile}`,
+            entrypointUrl: `${baseUrl}/${resolveClientEntry(config, pathname)}`,
             viteClientUrl: `${baseUrl}/@vite/client`,
         }
     }
     
-    public stringTemplate(): string | Promise<string> {
+    /**
+     * HTML to load Vite in the browser, or the provided splash screen if the Vite server isn't ready yet.
+     */
+    public stringTemplate(splashScreen?: string): string | Promise<string> {
         const { viteClientUrl, entrypointUrl } = this.urls;
         const viteClient = `<script src="${viteClientUrl}" type="module" id="${VITE_CLIENT_SCRIPT_ID}"></script>`;
         const viteEntrypoint = `<script src="${entrypointUrl}" type="module" id="${VITE_ENTRYPOINT_SCRIPT_ID}"></script>`;
@@ -27,7 +52,7 @@ export class ViteDevScripts {
             return `${viteClient}\n${viteEntrypoint}`;
         }
         
-        return Assets.getText('loading/dev-server-splash.html') as string;
+        return splashScreen ?? Assets.getText('loading/dev-server-splash.html') as string;
     }
     
     public injectScriptsInDOM() {
@@ -79,52 +104,141 @@ const runtimeConfig: RuntimeConfig = {
     ready: false,
     host: 'localhost',
     baseUrl: 'http://localhost:0',
+    serverUrl: 'http://localhost:0',
     port: 0,
     entryFile: '',
     lastUpdate: Date.now(),
 }
 
+const configListeners = new Set<(config: RuntimeConfig) => void>();
+const reloadListeners = new Set<() => void>();
+
+/**
+ * Endpoints served by the Meteor server for clients to discover the Vite dev server.
+ */
 export const ViteConnection = {
-    publication: '_meteor_vite' as const,
-    methods: {
-        refreshConfig: '_meteor_vite_refresh_config',
+    endpoints: {
+        /**
+         * Current runtime config as JSON.
+         */
+        config: '/__meteor-vite/config',
+        
+        /**
+         * Server-sent events stream with the runtime config. Emits the current config when connecting, then again
+         * every time it changes. A `reload` event is emitted when clients need to reload the page.
+         */
+        configEvents: '/__meteor-vite/config-events',
+    },
+    
+    /**
+     * Path for clients to reach the provided endpoint at. Kept relative to the page's origin rather than ROOT_URL,
+     * which might point to a different host than the one the browser is on, e.g. when using tunnels or LAN IPs.
+     */
+    url(endpoint: 'config' | 'configEvents') {
+        return `${__meteor_runtime_config__.ROOT_URL_PATH_PREFIX || ''}${ViteConnection.endpoints[endpoint]}`;
     },
-    configSelector: { _id: 'viteConfig' },
 }
 
-export async function getConfig() {
-    const viteConfig = await MeteorViteConfig.findOneAsync(ViteConnection.configSelector);
-    const config = viteConfig || runtimeConfig;
+export async function getConfig(): Promise<RuntimeConfig & { age: number }> {
+    if (Meteor.isClient) {
+        const response = await fetch(ViteConnection.url('config'));
+        return response.json();
+    }
+    
+    const config = runtimeConfig;
     let baseUrl = config.resolvedUrls?.network?.[0] || config.resolvedUrls?.local?.[0] || `http://localhost:${config.port}`;
     
     if (process.env.METEOR_VITE_HOST) {
         baseUrl = `${process.env.METEOR_VITE_PROTOCOL || 'http'}://${process.env.METEOR_VITE_HOST}:${process.env.METEOR_VITE_PORT || config.port}`
     }
     
+    if (config.proxyPrefix) {
+        baseUrl = config.proxyPrefix;
+    }
+    
     // Strip any trailing '/' characters
     baseUrl = baseUrl.replace(/\/+$/g, '');
     
     return {
         ...config,
         baseUrl,
+        serverUrl: new URL(config.resolvedUrls?.local?.[0] || `http://localhost:${config.port}`).origin,
         age: Date.now() - config.lastUpdate,
     }
 }
 
 export async function setConfig<TConfig extends Partial<RuntimeConfig>>(config: TConfig) {
-    Object.assign(runtimeConfig, config, ViteConnection.configSelector, { lastUpdate: Date.now() });
+    Object.assign(runtimeConfig, config, { lastUpdate: Date.now() });
     
     if (runtimeConfig.port && runtimeConfig.host && runtimeConfig.entryFile) {
         runtimeConfig.ready = true;
     }
     
-    await MeteorViteConfig.upsertAsync(ViteConnection.configSelector, runtimeConfig);
+    const resolvedConfig = await getConfig();
+    configListeners.forEach((listener) => listener(resolvedConfig));
     return runtimeConfig;
 }
 
-if (Meteor.isDevelopment) {
-    MeteorViteConfig = new Mongo.Collection(ViteConnection.publication);
+/**
+ * Have connected clients reload the page through the config event stream.
+ */
+export function reloadClients() {
+    reloadListeners.forEach((listener) => listener());
+}
+
+export function onClientReload(listener: () => void) {
+    reloadListeners.add(listener);
+    return () => reloadListeners.delete(listener);
+}
+
+/**
+ * Listen for changes to the runtime config on the server.
+ * @returns Function to remove the listener.
+ */
+export function onConfigChange(listener: (config: RuntimeConfig) => void) {
+    configListeners.add(listener);
+    return () => configListeners.delete(listener);
 }
+const STATUS_DESCRIPTIONS: Record<WorkerStatus['phase'], string> = {
+    starting: 'Starting Vite dev server...',
+    optimizing: 'Optimizing dependencies...',
+    ready: 'Vite dev server is ready! Loading your app...',
+    refreshNeeded: 'Waiting for Meteor to rebuild lazy-loaded packages...',
+    error: 'Vite dev server encountered an error',
+};
+
+/**
+ * Display the Vite dev server's status on the splash screen shown until Vite is loaded.
+ */
+export const DevSplashScreen = {
+    setStatus(status?: WorkerStatus) {
+        if (!Meteor.isClient || !status) return;
+        const phase = document.querySelector('.vite-status-phase');
+        
+        if (phase) {
+            phase.textContent = STATUS_DESCRIPTIONS[status.phase];
+        }
+        
+        if (status.phase !== 'error') {
+            return;
+        }
+        
+        document.querySelector('.vite-status-spinner')?.remove();
+        const statusText = document.querySelector<HTMLElement>('.vite-status-text');
+        
+        if (!statusText) {
+            return;
+        }
+        
+        statusText.textContent = [status.message, status.stack].filter(Boolean).join('\n');
+        Object.assign(statusText.style, {
+            color: '#f87171',
+            height: 'auto',
+            maxHeight: '60vh',
+        });
+    },
+};
+
 const logLabel = Meteor.isClient ? `[Meteor-Vite] ⚡ ` : '⚡  ';
 
 export const DevConnectionLog = {
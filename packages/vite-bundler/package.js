@@ -17,14 +17,18 @@ Package.registerBuildPlugin({
     sources: [
         'build.ts',
         'workers.ts',
+        'plugin/BuildReport.ts',
+        'plugin/BundlePaths.ts',
         'plugin/Compiler.ts',
         'plugin/IntermediaryMeteorProject.ts',
+        'plugin/SizeBudgets.ts',
+        'plugin/Transpiler.ts',
         'utility/Logger.ts',
         'utility/Helpers.ts',
         'utility/Errors.ts'
     ],
     npmDependencies: {
-        execa: '6.1.0',
+        'es-module-lexer': '1.7.0',
         'fs-extra': '10.1.0',
         'picocolors': '1.0.0',
     },
@@ -39,7 +43,6 @@ Package.onUse(function (api) {
     api.use([
         'fetch',
         'webapp',
-        'mongo',
         'typescript@3.0.0 || 4.0.0 || 5.0.0',
         'isobuild:compiler-plugin@1.0.0',
     ]);
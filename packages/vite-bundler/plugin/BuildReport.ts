@@ -0,0 +1,80 @@
+import fs from 'fs-extra';
+import path from 'node:path';
+import pc from 'picocolors';
+import { bytesToHumanSize } from '../utility/Helpers';
+import Logger from '../utility/Logger';
+import { cwd } from '../workers';
+import type { ViteBundleOutput } from './IntermediaryMeteorProject';
+
+/**
+ * Path to the manifest written for every production build. Kept with Meteor's other local build files, which
+ * makes it easy to pick up as a CI artifact.
+ */
+const MANIFEST_PATH = path.join(process.env.METEOR_LOCAL_DIR || path.join(cwd, '.meteor', 'local'), 'vite-manifest.json');
+
+/**
+ * Write a manifest with the sizes and contents of every file in the Vite bundles, and print a size table for each
+ * bundle so any bloat shows up in build logs and the GitHub Actions step summary.
+ */
+export function writeBuildReport(bundles: ViteBundleOutput[]) {
+    const manifest = Object.fromEntries(bundles.map(({ arch, payload }) => [arch, {
+        files: payload.output || [],
+        duplicateNpmPackages: payload.duplicateNpmPackages,
+    }]));
+    
+    fs.outputFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    Logger.info(`Build manifest written to ${pc.yellow(path.relative(cwd, MANIFEST_PATH))}`);
+    
+    for (const { arch, payload } of bundles) {
+        Logger.table(`Bundle size for ${arch}`, formatSizeTable(payload.output || []));
+        reportDuplicateNpmPackages(arch, payload.duplicateNpmPackages);
+    }
+}
+
+/**
+ * List npm packages that end up in the client twice, once through Vite and once through Meteor's modules.js.
+ */
+function reportDuplicateNpmPackages(arch: string, packages: DuplicateNpmPackage[]) {
+    if (!packages.length) {
+        return;
+    }
+    
+    Logger.table(`npm packages bundled by both Meteor and Vite for ${arch}`, [
+        ['Package', 'Size', 'Chunks'],
+        ...packages.map(({ name, size, chunks }) => [name, bytesToHumanSize(size), chunks.join(', ')]),
+    ]);
+    Logger.info([
+        'These packages are imported by your Meteor client mainModule or Atmosphere packages, as well as your Vite entry.',
+        `   Consider adding them to externalizeNpmPackages in your Vite config to only ship them once:`,
+        `   ${pc.yellow(`externalizeNpmPackages: ${JSON.stringify(packages.map(({ name }) => name))}`)}`,
+    ].join('\n'));
+}
+
+type BuildOutputFile = NonNullable<ViteBundleOutput['payload']['output']>[number];
+type DuplicateNpmPackage = ViteBundleOutput['payload']['duplicateNpmPackages'][number];
+
+function formatSizeTable(output: BuildOutputFile[]) {
+    const files = output
+        .filter(({ fileName }) => !fileName.endsWith('.map'))
+        .sort((a, b) => b.size - a.size);
+    const sum = (sizes: (number | undefined)[]) => sizes.reduce<number>((total, size) => total + (size || 0), 0);
+    const formatSize = (size?: number) => size === undefined ? '-' : bytesToHumanSize(size);
+    
+    return [
+        ['File', 'Size', 'Gzip', 'Brotli', 'Meteor stubs'],
+        ...files.map((file) => [
+            file.isEntry ? `${file.fileName} (entry)` : file.fileName,
+            formatSize(file.size),
+            formatSize(file.gzipSize),
+            formatSize(file.brotliSize),
+            file.meteorStubs.length.toString(),
+        ]),
+        [
+            'Total',
+            formatSize(sum(files.map(({ size }) => size))),
+            formatSize(sum(files.map(({ gzipSize }) => gzipSize))),
+            formatSize(sum(files.map(({ brotliSize }) => brotliSize))),
+            sum(files.map(({ meteorStubs }) => meteorStubs.length)).toString(),
+        ],
+    ];
+}
@@ -0,0 +1,41 @@
+import Path from 'node:path';
+
+/**
+ * Path assets from the Vite bundle are added to the client under. This needs to match the path vite-bundler serves
+ * them from at runtime, as well as the asset URLs emitted by Vite.
+ */
+export const BUNDLE_ASSETS_PATH = '__meteor-vite';
+
+/**
+ * Get the arch a file within the Vite bundle directory was built for.
+ * @param bundleDir Path to the directory with the Vite bundle, relative to the Meteor project root.
+ * @example
+ * 'client/_vite-bundle/web.browser.legacy/meteor-entry.js' // 'web.browser.legacy'
+ * 'client/_vite-bundle/meteor-entry.js' // undefined
+ */
+export function getBundleArch(bundleDir: string, filePath: string) {
+    const [arch, ...path] = Path.posix.relative(bundleDir, filePath).split('/');
+    
+    if (!path.length || arch.startsWith('..')) {
+        return;
+    }
+    
+    return arch;
+}
+
+/**
+ * Assets and stylesheets are served from the same path for every arch, as Vite references assets relative to the
+ * bundle's root, or relative to the stylesheet for URLs within stylesheets.
+ * @param bundleDir Path to the directory with the Vite bundle, relative to the Meteor project root.
+ * @example
+ * 'client/_vite-bundle/web.browser/assets/logo-4f1c2a.svg' // '__meteor-vite/assets/logo-4f1c2a.svg'
+ * 'client/_vite-bundle/web.browser/assets/style-9d3e1b.css' // '__meteor-vite/assets/style-9d3e1b.css'
+ */
+export function getAssetPath(bundleDir: string, filePath: string) {
+    if (!getBundleArch(bundleDir, filePath)) {
+        return filePath;
+    }
+    
+    const [, ...path] = Path.posix.relative(bundleDir, filePath).split('/');
+    return Path.posix.join(BUNDLE_ASSETS_PATH, ...path);
+}
@@ -1,5 +1,6 @@
 import Logger from '../utility/Logger';
 import Path from 'node:path';
+import { getAssetPath, getBundleArch } from './BundlePaths';
 
 /**
  * Temporary file extension to apply to all files bundled by Vite.
@@ -7,9 +8,33 @@ import Path from 'node:path';
  */
 export const BUNDLE_FILE_EXTENSION = '_vite-bundle.tmp'
 
+/**
+ * Client architectures Vite bundles are built for. Any other client arch is served the modern bundle.
+ */
+export const MODERN_ARCH = 'web.browser';
+export const LEGACY_ARCH = 'web.browser.legacy';
+export const CORDOVA_ARCH = 'web.cordova';
+
+/**
+ * Filename of the Vite bundle's entry module. Each arch has its own entries within its bundle directory, with a router
+ * module of this name placed at the root of the bundle directory for the client mainModule to import.
+ */
+export const ENTRY_MODULE = 'meteor-entry.js';
+
+/**
+ * Filename of the module vite-bundler updates during development to have Meteor rebuild the client. Placed at the root
+ * of the bundle directory and always added eagerly, so any change to it results in a new client build.
+ */
+export const CLIENT_REBUILD_MODULE = 'client-rebuild.js';
+
 export default class Compiler {
     protected static cleanupHandlers: CleanupHandler[] = [];
     
+    /**
+     * @param bundleDir Path to the directory with the Vite bundle, relative to the Meteor project root.
+     */
+    constructor(protected readonly bundleDir: string) {}
+    
     public static addCleanupHandler(handler: CleanupHandler) {
         if (process.env.METEOR_VITE_BUILD_CLEANUP === 'false') {
             Logger.info('Build cleanup is disabled ⚠️ Recommended use is in CI/CD environments ⚠️ Your project\'s source files might be modified by meteor-vite.');
@@ -23,8 +48,91 @@ export default class Compiler {
         return nameOrPath.replace(`.${BUNDLE_FILE_EXTENSION}`, '');
     }
     
-    protected processFilesForTarget(files: BuildPluginFile[]) {
+    /**
+     * Keep only the files from the Vite bundle built for the provided arch.
+     * Archs without a dedicated bundle fall back to the modern bundle.
+     */
+    protected _filterFilesForArch(files: BuildPluginFile[], arch: string) {
+        const bundleArchs = new Set(files.map((file) => getBundleArch(this.bundleDir, file.getPathInPackage())));
+        const bundleArch = bundleArchs.has(arch) ? arch : MODERN_ARCH;
+        
+        return {
+            bundleArch,
+            files: files.filter((file) => {
+                const fileArch = getBundleArch(this.bundleDir, file.getPathInPackage());
+                return !fileArch || fileArch === bundleArch;
+            }),
+        }
+    }
+    
+    /**
+     * Collect the source maps emitted alongside the transpiled Vite bundle, keyed by the path of the file they map.
+     * These are handed to Meteor along with their file rather than being served as standalone assets.
+     */
+    protected _collectSourceMaps(files: BuildPluginFile[]) {
+        const paths = new Set(files.map((file) => this._formatFilename(file.getPathInPackage())));
+        const sourceMaps = new Map<string, BuildPluginFile>();
+        
+        files.forEach((file) => {
+            const path = this._formatFilename(file.getPathInPackage());
+            const mappedPath = path.replace(/\.map$/, '');
+            
+            if (mappedPath === path || !paths.has(mappedPath)) {
+                return;
+            }
+            
+            sourceMaps.set(mappedPath, file);
+        });
+        
+        return sourceMaps;
+    }
+    
+    /**
+     * Generate the router module that loads the entry for the current page from the provided arch's bundle.
+     * Every entry is required with a static path, otherwise Meteor won't include them in the client bundle.
+     */
+    protected _entryRouterSource(bundleArch: string, { entries, routes }: EntryRouterConfig) {
+        const requireEntry = (entryName: string) => {
+            return `require(${JSON.stringify(`./${bundleArch}/${entries[entryName]}`)});`;
+        }
+        const [defaultEntry] = Object.keys(entries);
+        const conditions = Object.entries(routes)
+            .sort(([a], [b]) => b.length - a.length)
+            .map(([prefix, entryName]) => {
+                return `if (matchesRoutePrefix(${JSON.stringify(prefix)})) {\n    ${requireEntry(entryName)}\n}`;
+            });
+        
+        if (!conditions.length) {
+            return `${requireEntry(defaultEntry)}\n`;
+        }
+        
+        // Kept to ES5 as the router isn't transpiled for legacy browsers. Mirrors matchesRoutePrefix() from EntryRoutes
+        const matchesRoutePrefix = [
+            `function matchesRoutePrefix(prefix) {`,
+            `    var pathname = window.location.pathname;`,
+            `    var basePath = prefix.replace(/\\/+$/, '');`,
+            `    return pathname === prefix || pathname === basePath || pathname.indexOf(basePath + '/') === 0;`,
+            `}`,
+        ].join('\n');
+        
+        return `${matchesRoutePrefix}\n${conditions.join(' else ')} else {\n    ${requireEntry(defaultEntry)}\n}\n`;
+    }
+    
+    protected processFilesForTarget(targetFiles: BuildPluginFile[]) {
+        if (!targetFiles.length) {
+            return;
+        }
+        
+        const { files, bundleArch } = this._filterFilesForArch(targetFiles, targetFiles[0].getArch());
+        const entryRouterPath = Path.posix.join(this.bundleDir, ENTRY_MODULE);
+        const sourceMaps = this._collectSourceMaps(files);
+        const sourceMapFiles = new Set(sourceMaps.values());
+        
         files.forEach(file => {
+            if (sourceMapFiles.has(file)) {
+                return;
+            }
+            
             const fileMeta = {
                 _original: {
                     basename: file.getBasename(),
@@ -34,27 +142,39 @@ export default class Compiler {
                 path: this._formatFilename(file.getPathInPackage()),
             }
             const sourcePath = file.getPathInPackage();
+            const sourceMap = sourceMaps.get(fileMeta.path)?.getContentsAsString();
             
             Logger.debug(`[${file.getArch()}] Processing: ${fileMeta.basename}`, { fileMeta });
             
+            if (fileMeta.path === entryRouterPath) {
+                file.addJavaScript({
+                    path: fileMeta.path,
+                    data: this._entryRouterSource(bundleArch, JSON.parse(file.getContentsAsString())),
+                    sourcePath,
+                });
+                return;
+            }
+            
             switch (Path.extname(fileMeta.basename)) {
                 case '.js':
                     file.addJavaScript({
                         path: fileMeta.path,
                         data: file.getContentsAsString(),
                         sourcePath,
+                        sourceMap: sourceMap && JSON.parse(sourceMap),
                     })
                     break
                 case '.css':
                     file.addStylesheet({
-                        path: fileMeta.path,
+                        path: getAssetPath(this.bundleDir, fileMeta.path),
                         data: file.getContentsAsString(),
                         sourcePath,
+                        sourceMap: sourceMap && JSON.parse(sourceMap),
                     })
                     break
                 default:
                     file.addAsset({
-                        path: fileMeta.path,
+                        path: getAssetPath(this.bundleDir, fileMeta.path),
                         data: file.getContentsAsBuffer(),
                         sourcePath,
                     })
@@ -72,6 +192,51 @@ export default class Compiler {
     
 }
 type CleanupHandler = () => void;
+
+/**
+ * Compiler used during development, where the client is served by the Vite dev server. Only the client rebuild
+ * module is added to the Meteor client, any other file in the bundle directory is ignored.
+ */
+export class DevCompiler {
+    /**
+     * @param bundleDir Path to the directory with the Vite bundle, relative to the Meteor project root.
+     */
+    constructor(protected readonly bundleDir: string) {}
+    
+    public processFilesForTarget(files: BuildPluginFile[]) {
+        const rebuildModulePath = Path.posix.join(this.bundleDir, CLIENT_REBUILD_MODULE);
+        
+        files.forEach(file => {
+            const path = file.getPathInPackage().replace(`.${BUNDLE_FILE_EXTENSION}`, '');
+            
+            if (path !== rebuildModulePath) {
+                return;
+            }
+            
+            file.addJavaScript({
+                path,
+                data: file.getContentsAsString(),
+                sourcePath: file.getPathInPackage(),
+                lazy: false,
+            });
+        });
+    }
+}
+
+/**
+ * Written to the entry router module by the build plugin for the Compiler to generate the router from.
+ */
+export interface EntryRouterConfig {
+    /**
+     * File names of the bundle's entry chunks, keyed by entry name. The first entry is loaded if no routes match.
+     */
+    entries: Record<string, string>;
+    
+    /**
+     * Entry names keyed by the URL path prefix they should be loaded for.
+     */
+    routes: Record<string, string>;
+}
 type PluginFileBuffer = ArrayBufferLike;
 interface BuildPluginFile {
     getContentsAsString(): string;
@@ -87,4 +252,6 @@ interface FileData {
     path: string;
     data: string | PluginFileBuffer;
     sourcePath?: string;
+    sourceMap?: object;
+    lazy?: boolean;
 }
\ No newline at end of file
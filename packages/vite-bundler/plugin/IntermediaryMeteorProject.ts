@@ -1,7 +1,7 @@
-// @ts-ignore
-import { execaSync } from 'execa';
 import fs from 'fs-extra';
 import type { WorkerResponseData } from 'meteor-vite';
+import { spawn } from 'node:child_process';
+import crypto from 'node:crypto';
 import path from 'node:path';
 import pc from 'picocolors';
 import { MeteorViteError } from '../utility/Errors';
@@ -16,11 +16,16 @@ const {
     tempMeteorProject,
 } = getBuildConfig();
 
+/**
+ * Number of lines from the end of Meteor's output to include in errors when the intermediary build fails.
+ */
+const BUILD_ERROR_OUTPUT_LINES = 30;
+
 /**
  * Build a temporary Meteor project to use for safely building the Vite production bundle to be fed into the Meteor
  * compiler
  */
-function prepareTemporaryMeteorProject() {
+async function prepareTemporaryMeteorProject(archs: string[]) {
     const profile = Logger.startProfiler();
     const filesToCopy = [
         path.join('.meteor', '.finished-upgraders'),
@@ -122,51 +127,216 @@ function prepareTemporaryMeteorProject() {
         fs.writeFileSync(file, imports.join('\n'))
     }
     
-    // todo: drop execa as a dependency and use a promise instead
-    execaSync('meteor', [
+    const fingerprint = fingerprintTemporaryMeteorProject();
+    const fingerprintPath = path.join(tempMeteorOutDir, 'fingerprint');
+    
+    if (isBuildCached(fingerprint, fingerprintPath, archs)) {
+        Logger.info(`Meteor packages are unchanged since the last build. Skipping intermediary Meteor build ${pc.dim(fingerprint)}`);
+        profile.complete('Packages loaded from cache');
+        return;
+    }
+    
+    // Ensure an interrupted build is never mistaken for a cached one.
+    fs.removeSync(fingerprintPath);
+    
+    await buildTemporaryMeteorProject();
+    
+    fs.writeFileSync(fingerprintPath, fingerprint);
+    profile.complete(`Packages built`);
+}
+
+/**
+ * Run `meteor build` for the temporary Meteor project, relaying its output through our logger as it comes in.
+ * The build is aborted if it does not complete within the timeout set in `meteor.vite.meteorBuildTimeout`.
+ */
+function buildTemporaryMeteorProject() {
+    const timeoutSeconds = pkg?.meteor?.vite?.meteorBuildTimeout ?? 30 * 60;
+    const output: string[] = [];
+    
+    const child = spawn('meteor', [
         'build',
         tempMeteorOutDir,
         '--directory',
-        // Ensure the temporary build doesn't abort for projects with mobile builds
-        // Since this is only a temporary build, it shouldn't impact the final production build for the developer.
+        // Required for projects with mobile platforms, which also gives us the web.cordova packages to build against.
+        // Since this is only a temporary build, the server URL doesn't impact the final production build.
         '--server=http://localhost:3000',
     ], {
         cwd: tempMeteorProject,
-        // stdio: ['inherit', 'inherit', 'inherit'],
+        shell: process.platform === 'win32',
         env: {
+            ...process.env,
             FORCE_COLOR: '3',
             VITE_METEOR_DISABLED: 'true',
         },
-    })
+    });
     
-    profile.complete(`Packages built`);
+    const relayOutput = (stream: NodeJS.ReadableStream) => {
+        let buffer = '';
+        const relayLine = (line: string) => {
+            if (!line.trim()) return;
+            output.push(line);
+            output.splice(0, output.length - BUILD_ERROR_OUTPUT_LINES);
+            Logger.output('meteor build', line);
+        }
+        stream.setEncoding('utf8');
+        stream.on('data', (chunk: string) => {
+            const lines = (buffer + chunk).split(/\r?\n|\r/);
+            buffer = lines.pop() || '';
+            lines.forEach(relayLine);
+        });
+        stream.on('end', () => relayLine(buffer));
+    }
+    
+    relayOutput(child.stdout);
+    relayOutput(child.stderr);
+    
+    return new Promise<void>((resolve, reject) => {
+        const fail = (message: string, cause?: unknown) => {
+            reject(new MeteorViteError([
+                message,
+                `Last ${output.length} lines of output from Meteor:`,
+                ...output.map((line) => `    ${line}`),
+            ].join('\n'), { cause }));
+        }
+        
+        const timeout = timeoutSeconds && setTimeout(() => {
+            child.kill();
+            fail(`Intermediary Meteor build timed out after ${timeoutSeconds} seconds! You can increase the timeout with meteor.vite.meteorBuildTimeout in your package.json`);
+        }, timeoutSeconds * 1000);
+        
+        child.on('error', (error) => {
+            clearTimeout(timeout);
+            fail(`Unable to start intermediary Meteor build: ${error.message}`, error);
+        });
+        
+        child.on('close', (code, signal) => {
+            clearTimeout(timeout);
+            if (code === 0) {
+                return resolve();
+            }
+            fail(`Intermediary Meteor build failed! (${signal ? `signal: ${signal}` : `exit code: ${code}`})`);
+        });
+    });
+}
+
+/**
+ * Lock files of the npm package managers your project might be using. Npm packages are shipped to the client through
+ * Meteor's modules package, so their installed versions affect the intermediary build as well.
+ */
+const NPM_LOCK_FILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+
+/**
+ * Create a hash of everything that affects the Meteor packages available to the intermediary build.
+ * Has to be called after the temporary Meteor project has been prepared, so stripped imports and replaced packages
+ * are accounted for.
+ */
+function fingerprintTemporaryMeteorProject() {
+    const hash = crypto.createHash('sha1');
+    const files = [
+        path.join(tempMeteorProject, '.meteor', 'release'),
+        path.join(tempMeteorProject, '.meteor', 'versions'),
+        path.join(tempMeteorProject, '.meteor', 'packages'),
+        path.join(tempMeteorProject, meteorMainModule),
+        path.join(cwd, 'package.json'),
+        ...NPM_LOCK_FILES.map((file) => path.join(cwd, file)).filter((file) => fs.existsSync(file)),
+        ...listFiles(path.join(cwd, 'packages')),
+    ];
+    
+    for (const file of files) {
+        hash.update(path.relative(cwd, file));
+        hash.update(fs.readFileSync(file));
+    }
+    
+    return hash.digest('hex');
+}
+
+function isBuildCached(fingerprint: string, fingerprintPath: string, archs: string[]) {
+    if (process.env.METEOR_VITE_DISABLE_BUILD_CACHE === 'true') {
+        return false;
+    }
+    if (!fs.existsSync(fingerprintPath)) {
+        return false;
+    }
+    if (!archs.every((arch) => fs.existsSync(getPackagePath(arch)))) {
+        return false;
+    }
+    
+    return fs.readFileSync(fingerprintPath, 'utf8') === fingerprint;
+}
+
+/**
+ * Recursively list files within the provided directory, sorted for a stable fingerprint.
+ * Npm dependencies installed for local packages are left out, their versions are tracked by Meteor's .npm directory.
+ */
+function listFiles(directory: string): string[] {
+    if (!fs.existsSync(directory)) {
+        return [];
+    }
+    
+    return fs.readdirSync(directory).sort().flatMap((name) => {
+        const filePath = path.join(directory, name);
+        
+        if (name === 'node_modules') {
+            return [];
+        }
+        if (fs.statSync(filePath).isDirectory()) {
+            return listFiles(filePath);
+        }
+        
+        return [filePath];
+    });
 }
 
 /**
  * Use temporary Meteor project to build the Vite production bundle without affecting the source project.
+ * A separate bundle is built for each of the provided client architectures, against that arch's Meteor packages.
+ * The server bundle is only built if a serverEntry is configured for Vite.
  */
-export async function prepareViteBundle() {
-    prepareTemporaryMeteorProject();
+export async function prepareViteBundle(archs: string[]) {
+    await prepareTemporaryMeteorProject(archs);
+    const bundles = [];
+    
+    for (const arch of archs) {
+        bundles.push(await buildBundle(arch));
+    }
+    
+    const { meteorViteConfig } = bundles[0].payload;
+    const server = meteorViteConfig.serverEntry
+                   ? await buildBundle('server')
+                   : undefined;
+    
+    return { bundles, server };
+}
+
+async function buildBundle(arch: string) {
     const profile = Logger.startProfiler();
     
-    Logger.info('Building with Vite...')
+    Logger.info(`Building with Vite for ${pc.yellow(arch)}...`)
     
     // Build with vite
-    const { payload } = await viteBuild();
+    const { payload } = await viteBuild(arch);
     
     if (!payload.success) {
-        throw new MeteorViteError('Vite build failed!');
+        throw new MeteorViteError(`Vite build failed for ${arch}!`);
     }
     
-    profile.complete(`Vite build completed`);
+    profile.complete(`Vite build completed for ${arch}`);
     
-    const entryAsset = payload.output?.find(o => o.fileName === 'meteor-entry.js' && o.type === 'chunk')
+    const entryAssets = payload.output?.filter(o => o.isEntry && o.type === 'chunk') || [];
     
-    if (!entryAsset) {
-        throw new MeteorViteError('No meteor-entry chunk found')
+    if (!entryAssets.length) {
+        throw new MeteorViteError(`No entry chunk found for ${arch}`)
     }
     
-    return { payload, entryAsset }
+    return { arch, payload, entryAssets };
+}
+
+function getPackagePath(arch: string) {
+    // Meteor packages are not stubbed for the server, but the worker still expects a package path.
+    if (arch === 'server') {
+        arch = 'web.browser';
+    }
+    return path.join(tempMeteorOutDir, 'bundle', 'programs', arch, 'packages');
 }
 
 
@@ -174,7 +344,7 @@ export async function prepareViteBundle() {
  * Create a worker to build a Vite production bundle from the temporary Meteor project
  * @returns {Promise<WorkerResponseData<'buildResult'>>}
  */
-function viteBuild(): Promise<WorkerResponseData<'buildResult'>> {
+function viteBuild(arch: string): Promise<WorkerResponseData<'buildResult'>> {
     return new Promise((resolve, reject) => {
         const worker = createWorkerFork({
             buildResult: (result) => resolve(result) ,
@@ -184,8 +354,9 @@ function viteBuild(): Promise<WorkerResponseData<'buildResult'>> {
             method: 'vite.build',
             params: [{
                 packageJson: pkg,
+                arch,
                 meteor: {
-                    packagePath: path.join(tempMeteorOutDir, 'bundle', 'programs', 'web.browser', 'packages'),
+                    packagePath: getPackagePath(arch),
                     isopackPath: path.join(tempMeteorProject, '.meteor', 'local', 'isopacks'),
                 },
             }],
@@ -197,4 +368,4 @@ function debug(message: string, subtitle: string) {
     Logger.debug(`${message}\n    ${pc.gray('L')} ${pc.yellow(subtitle)}`);
 }
 
-export type ViteBundleOutput = Awaited<ReturnType<typeof prepareViteBundle>>;
\ No newline at end of file
+export type ViteBundleOutput = Awaited<ReturnType<typeof buildBundle>>;
\ No newline at end of file
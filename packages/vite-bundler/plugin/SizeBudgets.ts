@@ -0,0 +1,82 @@
+import type { SizeBudgets } from 'meteor-vite';
+import pc from 'picocolors';
+import { MeteorViteError } from '../utility/Errors';
+import { bytesToHumanSize, getBuildConfig, globToRegExp } from '../utility/Helpers';
+import Logger from '../utility/Logger';
+import type { ViteBundleOutput } from './IntermediaryMeteorProject';
+
+const { packageJson } = getBuildConfig();
+
+/**
+ * Check the chunks of the provided client bundles against the size budgets from the project's package.json or
+ * Vite config. Done as part of the Meteor build so budgets are enforced however the app is built and deployed.
+ */
+export function enforceSizeBudgets(bundles: ViteBundleOutput[]) {
+    const budgets: SizeBudgets | undefined = packageJson.meteor.vite?.sizeBudgets
+                                             ?? bundles[0]?.payload.meteorViteConfig.sizeBudgets;
+    
+    if (!budgets) {
+        return;
+    }
+    
+    const { compression = 'raw' } = budgets;
+    const offenders: string[] = [];
+    
+    for (const { arch, payload } of bundles) {
+        for (const chunk of payload.output || []) {
+            if (chunk.type !== 'chunk') {
+                continue;
+            }
+            
+            const size = getChunkSize(chunk, compression);
+            const limits = [
+                ...chunk.isEntry ? matchBudgets(budgets.entries, chunk) : [],
+                ...matchBudgets(budgets.chunks, chunk),
+            ];
+            
+            for (const [pattern, limit] of limits) {
+                if (size <= limit) {
+                    continue;
+                }
+                
+                offenders.push(`[${arch}] ${chunk.fileName}: ${bytesToHumanSize(size)} exceeds the ${bytesToHumanSize(limit)} budget for ${pc.yellow(pattern)}`);
+            }
+        }
+        
+        const duplicatesSize = payload.duplicateNpmPackages.reduce((total, { size }) => total + size, 0);
+        
+        if (budgets.duplicates !== undefined && duplicatesSize > budgets.duplicates) {
+            const packages = payload.duplicateNpmPackages.map(({ name }) => name).join(', ');
+            offenders.push(`[${arch}] npm packages bundled by both Meteor and Vite: ${bytesToHumanSize(duplicatesSize)} exceeds the ${bytesToHumanSize(budgets.duplicates)} budget for ${pc.yellow('duplicates')} (${packages})`);
+        }
+    }
+    
+    if (offenders.length) {
+        throw new MeteorViteError([
+            `Vite bundle exceeds its size budgets! (${compression} size)`,
+            ...offenders.map((offender) => `    ${offender}`),
+        ].join('\n'));
+    }
+    
+    Logger.success(`Vite bundle is within its size budgets (${compression} size)`);
+}
+
+type BuildOutputFile = NonNullable<ViteBundleOutput['payload']['output']>[number];
+
+function matchBudgets(budgets: Record<string, number> = {}, { name, fileName }: BuildOutputFile) {
+    return Object.entries(budgets).filter(([pattern]) => {
+        const matcher = globToRegExp(pattern);
+        return (name && matcher.test(name)) || matcher.test(fileName);
+    });
+}
+
+function getChunkSize(chunk: BuildOutputFile, compression: NonNullable<SizeBudgets['compression']>) {
+    switch (compression) {
+        case 'gzip':
+            return chunk.gzipSize ?? chunk.size;
+        case 'brotli':
+            return chunk.brotliSize ?? chunk.size;
+        default:
+            return chunk.size;
+    }
+}
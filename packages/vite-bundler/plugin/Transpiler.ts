@@ -0,0 +1,204 @@
+import { ImportType, initSync as initModuleLexer, parse as parseModule } from 'es-module-lexer';
+import fs from 'fs-extra';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { MeteorViteError } from '../utility/Errors';
+import { getBuildConfig } from '../utility/Helpers';
+import Logger from '../utility/Logger';
+import { cwd } from '../workers';
+import { BUNDLE_FILE_EXTENSION, LEGACY_ARCH } from './Compiler';
+import type { ViteBundleOutput } from './IntermediaryMeteorProject';
+
+const {
+    packageJson,
+    viteOutSrcDir,
+} = getBuildConfig();
+
+/**
+ * Syntax target for the esbuild transpiler.
+ * Kept conservative to stay within what the import scanner of older Meteor releases is able to parse.
+ */
+const ESBUILD_TARGET = 'es2019';
+
+/**
+ * Transpile and push the Vite bundle for the provided arch into the Meteor project's source directory.
+ * Client bundles are placed in the client directory by default, the server bundle needs to be placed elsewhere.
+ * ES module syntax is converted to CommonJS as Meteor's linker expects, with dynamic imports mapped to
+ * `module.dynamicImport()` so lazy chunks are still only fetched by the client when requested.
+ */
+export function transpileViteBundle({ payload, arch, bundleDir = viteOutSrcDir }: Pick<ViteBundleOutput, 'payload' | 'arch'> & {
+    bundleDir?: string;
+}) {
+    // esbuild can't lower syntax all the way down to ES5, so legacy bundles always go through Babel.
+    let transpilerName = arch === LEGACY_ARCH ? 'babel' : packageJson?.meteor?.vite?.transpiler || 'esbuild';
+    
+    if (transpilerName === 'esbuild' && !loadEsbuild()) {
+        Logger.info(`Unable to load esbuild from your project's Vite installation. Falling back to Babel...`);
+        transpilerName = 'babel';
+    }
+    
+    const transpile = Transpilers[transpilerName];
+    const outDir = path.join(bundleDir, arch);
+    const profile = Logger.startProfiler();
+    
+    if (!transpile) {
+        throw new MeteorViteError(`Unknown transpiler "${transpilerName}" in meteor.vite.transpiler! Expected one of: ${Object.keys(Transpilers).join(', ')}`);
+    }
+    
+    Logger.info(`Transpiling Vite bundle for ${arch} using ${transpilerName}...`);
+    
+    fs.ensureDirSync(outDir)
+    fs.emptyDirSync(outDir)
+    
+    // Add .gitignore file to prevent the transpiled bundle from being committed accidentally.
+    fs.writeFileSync(path.join(bundleDir, '.gitignore'), '/**');
+    
+    const outputFiles = new Set(payload.output.map(({ fileName }) => fileName));
+    
+    for (const { fileName: file } of payload.output) {
+        const from = path.join(payload.outDir, file)
+        const to = path.join(outDir, `${file}.${BUNDLE_FILE_EXTENSION}`);
+        fs.ensureDirSync(path.dirname(to))
+        
+        // Source maps are chained into the transpiled chunk's source map, or copied alongside their file below
+        if (path.extname(from) === '.map' && outputFiles.has(file.replace(/\.map$/, ''))) {
+            continue;
+        }
+        
+        if (path.extname(from) !== '.js') {
+            fs.copyFileSync(from, to)
+            
+            if (fs.existsSync(`${from}.map`)) {
+                fs.copyFileSync(`${from}.map`, sourceMapPath(to));
+            }
+            continue;
+        }
+        
+        const transpiled = transpile({
+            source: fs.readFileSync(from, 'utf8'),
+            filename: from,
+            inputSourceMap: readSourceMap(`${from}.map`),
+            arch,
+        });
+        
+        fs.writeFileSync(to, transpiled.code, 'utf8')
+        
+        if (transpiled.map) {
+            fs.writeFileSync(sourceMapPath(to), transpiled.map, 'utf8');
+        }
+    }
+    
+    profile.complete('Transpile completed');
+}
+
+const Transpilers: Record<string, Transpiler | undefined> = {
+    esbuild({ source, filename, inputSourceMap }) {
+        // esbuild picks up input source maps from inline sourceMappingURL comments
+        const input = inputSourceMap
+                      ? `${stripSourceMappingURL(source)}\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(inputSourceMap)).toString('base64')}\n`
+                      : source;
+        
+        const { code, map, warnings } = loadEsbuild()!.transformSync(input, {
+            loader: 'js',
+            format: 'cjs',
+            target: ESBUILD_TARGET,
+            supported: {
+                // Keep import() intact so it can be handed over to Meteor's dynamic-import package below.
+                'dynamic-import': true,
+            },
+            sourcemap: inputSourceMap ? 'external' : false,
+            sourcefile: filename,
+        });
+        
+        warnings.forEach((warning) => Logger.debug(`esbuild: ${warning.text}`, { filename, location: warning.location }));
+        
+        return {
+            code: mapDynamicImports(code, filename),
+            map: map || undefined,
+        };
+    },
+    
+    babel({ source, filename, inputSourceMap, arch }) {
+        const babelOptions = Babel.getDefaultOptions({ modernBrowsers: arch !== LEGACY_ARCH })
+        babelOptions.babelrc = true
+        babelOptions.sourceMaps = true
+        babelOptions.inputSourceMap = inputSourceMap
+        babelOptions.filename = babelOptions.sourceFileName = filename
+        const transpiled = Babel.compile(source, babelOptions, {
+            cacheDirectory: path.join(cwd, 'node_modules', '.babel-cache'),
+        })
+        
+        return {
+            code: transpiled.code,
+            map: inputSourceMap && transpiled.map ? JSON.stringify(transpiled.map) : undefined,
+        };
+    },
+}
+
+let esbuild: typeof import('esbuild') | null | undefined;
+
+/**
+ * esbuild relies on a platform-specific binary, so rather than publishing one with this build plugin, we use the
+ * copy installed alongside Vite in the user's project.
+ */
+function loadEsbuild() {
+    if (esbuild !== undefined) {
+        return esbuild;
+    }
+    
+    try {
+        const vitePath = createRequire(path.join(cwd, 'package.json')).resolve('vite');
+        esbuild = createRequire(vitePath)('esbuild') as typeof import('esbuild');
+    } catch (error) {
+        Logger.debug('Unable to load esbuild', error);
+        esbuild = null;
+    }
+    
+    return esbuild;
+}
+
+/**
+ * Replace dynamic import() calls with Meteor's `module.dynamicImport()`. Call sites are located with a lexer so
+ * occurrences of `import(` within strings, comments and regular expressions are left untouched.
+ */
+function mapDynamicImports(code: string, filename: string) {
+    initModuleLexer();
+    
+    let imports;
+    try {
+        [imports] = parseModule(code, filename);
+    } catch (error) {
+        throw new MeteorViteError(`Unable to locate dynamic imports in ${filename}`, { cause: error });
+    }
+    
+    return imports
+        .filter(({ t }) => t === ImportType.Dynamic)
+        .reduceRight((source, { ss }) => {
+            return `${source.slice(0, ss)}module.dynamicImport${source.slice(ss + 'import'.length)}`;
+        }, code);
+}
+
+/**
+ * Source maps are placed next to their file, to be picked up by the Compiler plugin.
+ */
+function sourceMapPath(bundleFile: string) {
+    return bundleFile.replace(`.${BUNDLE_FILE_EXTENSION}`, `.map.${BUNDLE_FILE_EXTENSION}`);
+}
+
+function readSourceMap(filePath: string) {
+    if (!fs.existsSync(filePath)) {
+        return;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+function stripSourceMappingURL(source: string) {
+    return source.replace(/\n\/\/# sourceMappingURL=.*\s*$/, '');
+}
+
+type Transpiler = (options: {
+    source: string;
+    filename: string;
+    inputSourceMap?: object;
+    arch: string;
+}) => { code: string, map?: string };
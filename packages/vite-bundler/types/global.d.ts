@@ -6,9 +6,16 @@ declare global {
     namespace NodeJS {
         interface ProcessEnv {
             VITE_METEOR_DISABLED?: string; // Use to disable the build plugin entirely. E.g. for publishing the package.
+            METEOR_VITE_ASSETS_URL?: string; // CDN URL to load assets from the production Vite bundle from.
         }
     }
     
+    var __meteor_runtime_config__: {
+        ROOT_URL: string;
+        ROOT_URL_PATH_PREFIX?: string;
+        VITE_ASSETS_URL?: string;
+    };
+    
     module Plugin {
         type CompilerPluginConfig = {
             extensions: string[];
@@ -24,11 +31,13 @@ declare global {
             sourceMaps: boolean;
             filename: string;
             sourceFileName: string;
+            inputSourceMap?: object;
         };
         function compile(source: string, compileOptions: CompileOptions, babelOptions: object): {
             code: string;
+            map?: object;
         }
-        function getDefaultOptions(): CompileOptions;
+        function getDefaultOptions(features?: { modernBrowsers?: boolean }): CompileOptions;
     }
 }
 
@@ -3,3 +3,9 @@ declare module 'meteor/meteor' {
         const isFibersDisabled: boolean | undefined;
     }
 }
+
+declare module 'meteor/webapp' {
+    namespace WebAppInternals {
+        const staticFilesByArch: Record<string, Record<string, { absolutePath: string } | undefined>>;
+    }
+}
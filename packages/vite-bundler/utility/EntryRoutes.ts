@@ -0,0 +1,28 @@
+/**
+ * Check if the provided URL path falls under a route prefix from `entryRoutes`. Prefixes only match whole path
+ * segments, so '/admin' matches '/admin' and '/admin/users', but not '/administrator'.
+ */
+export function matchesRoutePrefix(pathname: string, prefix: string) {
+    const basePath = prefix.replace(/\/+$/, '');
+    return pathname === prefix || pathname === basePath || pathname.startsWith(`${basePath}/`);
+}
+
+/**
+ * Pick the client entry to load for the provided URL path. The entry with the longest matching prefix in
+ * `entryRoutes` wins, falling back to the first of the named entries if none of the prefixes match.
+ */
+export function resolveClientEntry({ entryFile, entryRoutes = {} }: {
+    entryFile?: string | Record<string, string>,
+    entryRoutes?: Record<string, string>,
+}, pathname: string) {
+    if (!entryFile || typeof entryFile === 'string') {
+        return entryFile;
+    }
+    
+    const [defaultEntry] = Object.values(entryFile);
+    const [, entryName] = Object.entries(entryRoutes)
+        .filter(([prefix]) => matchesRoutePrefix(pathname, prefix))
+        .sort(([a], [b]) => b.length - a.length)[0] || [];
+    
+    return entryName && entryFile[entryName] || defaultEntry;
+}
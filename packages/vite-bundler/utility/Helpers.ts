@@ -23,6 +23,40 @@ export function msToHumanTime(milliseconds: number) {
     return `${Math.round(duration.count * 100) / 100}${duration.type}`;
 }
 
+export function bytesToHumanSize(bytes: number) {
+    const units = ['B', 'kB', 'MB', 'GB'];
+    let unitIndex = 0;
+    
+    while (bytes >= 1000 && unitIndex < units.length - 1) {
+        bytes /= 1000;
+        unitIndex++;
+    }
+    
+    return `${Math.round(bytes * 100) / 100} ${units[unitIndex]}`;
+}
+
+/**
+ * Convert a glob pattern into a regular expression. `*` matches anything but a `/`, `**` matches anything.
+ * @example
+ * globToRegExp('vendor-*.js').test('vendor-4f1c2a.js') // true
+ */
+export function globToRegExp(pattern: string) {
+    const source = pattern.split(/(\*\*|\*|\?)/).map((part) => {
+        switch (part) {
+            case '**':
+                return '.*';
+            case '*':
+                return '[^/]*';
+            case '?':
+                return '[^/]';
+            default:
+                return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }).join('');
+    
+    return new RegExp(`^${source}$`);
+}
+
 export function posixPath(filePath: string) {
     return filePath.split(Path.sep).join('/')
 }
@@ -53,12 +87,22 @@ export function getBuildConfig() {
      */
     const meteorMainModule = packageJson.meteor?.mainModule?.client
     
+    /**
+     * Meteor server mainModule. The Vite SSR bundle is imported here if a serverEntry is configured.
+     */
+    const meteorServerMainModule = packageJson.meteor?.mainModule?.server
+    
     /**
      * Destination directory inside the source Meteor project for the transpiled Vite bundle.
      * This is what is fed into Meteor at the end of the build process.
      */
     const viteOutSrcDir = Path.join(cwd, 'client', '_vite-bundle')
     
+    /**
+     * Destination directory inside the source Meteor project for the transpiled Vite SSR bundle.
+     */
+    const viteOutServerDir = Path.join(cwd, 'server', '_vite-bundle')
+    
     /**
      * Check if Meteor is running using the --production flag and not actually bundling for production.
      * This is important to check for as we normally clean up the files created for production once our compiler
@@ -83,7 +127,9 @@ export function getBuildConfig() {
         tempMeteorProject,
         isSimulatedProduction,
         meteorMainModule,
+        meteorServerMainModule,
         pluginEnabled,
         viteOutSrcDir,
+        viteOutServerDir,
     }
 }
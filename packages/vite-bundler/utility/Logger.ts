@@ -37,6 +37,27 @@ class Logger {
         console.debug(pc.dim(pc.blue(`⚡  ${message}`)), ...args)
     }
     
+    /**
+     * Relay output from a child process, dimmed to set it apart from our own log messages.
+     */
+    public output(label: string, line: string) {
+        console.log(pc.dim(`   ${label} ${pc.gray('|')} ${line}`))
+    }
+    
+    /**
+     * Print a table, which is also added to the GitHub Actions step summary.
+     */
+    public table(title: string, rows: string[][]) {
+        const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+        const lines = rows.map((row) => row.map((cell, column) => {
+            return column ? cell.padStart(widths[column]) : cell.padEnd(widths[column]);
+        }).join('  '));
+        
+        console.log(pc.blue(`⚡  ${title}`));
+        console.log([pc.bold(lines[0]), ...lines.slice(1)].map((line) => `   ${line}`).join('\n'));
+        this.github.addTable(title, rows);
+    }
+    
     public startProfiler() {
         const startTime = performance.now();
         return {
@@ -51,6 +72,7 @@ class Logger {
 
 class GithubActions {
     protected readonly summaryLines: string[] = [];
+    protected readonly summaryTables: string[] = [];
     protected stepSummaryFile;
     protected useAnnotations;
     
@@ -80,12 +102,40 @@ class GithubActions {
         
         const formattedArgs = args.length ? inspect(args) : '';
         this.summaryLines.push(`⚡  ${message} ${formattedArgs}`);
+        this.writeSummary();
+    }
+    
+    /**
+     * Add a Markdown table to the step summary. The first row is used as the table's header.
+     */
+    public addTable(title: string, [header, ...rows]: string[][]) {
+        if (!this.stepSummaryFile) {
+            return;
+        }
+        
+        const formatRow = (row: string[]) => `| ${row.join(' | ')} |`;
+        this.summaryTables.push([
+            `#### ${title}`,
+            formatRow(header),
+            formatRow(header.map((_, column) => column ? '---:' : '---')),
+            ...rows.map(formatRow),
+            '',
+        ].join('\n'));
+        this.writeSummary();
+    }
+    
+    protected writeSummary() {
+        if (!this.stepSummaryFile) {
+            return;
+        }
+        
         const summary = [
             '```log',
             'Meteor-Vite build metrics:',
             ...this.summaryLines,
             '```',
             '',
+            ...this.summaryTables,
             '<details>',
             '<summary>Generated by Meteor Vite</summary>',
             '\n',
@@ -1,24 +1,47 @@
+import { randomUUID } from 'crypto';
+import FS from 'fs';
 import type HTTP from 'http';
+import type { ServerEntryModule, ServerRenderContext, ServerRenderResult } from 'meteor-vite';
 import { fetch } from 'meteor/fetch';
 import { Meteor } from 'meteor/meteor';
-import { WebAppInternals } from 'meteor/webapp';
+import { WebApp, WebAppInternals } from 'meteor/webapp';
+import Path from 'path';
+import type { UrlWithParsedQuery } from 'url';
+import { setupBundleAssets } from './loading/bundle-assets';
+import { setupDevServerProxy } from './loading/dev-server-proxy';
 import {
     DevConnectionLog,
     getConfig,
-    MeteorViteConfig,
+    onClientReload,
+    onConfigChange,
+    reloadClients,
+    type RuntimeConfig,
     setConfig,
     ViteConnection,
     ViteDevScripts,
 } from './loading/vite-connection-handler';
-import { createWorkerFork, getProjectPackageJson, isMeteorIPCMessage } from './workers';
+import { createWorkerFork, cwd, getProjectPackageJson, isMeteorIPCMessage } from './workers';
+
+/**
+ * Milliseconds to wait for the Vite dev server to render a page before leaving it to be rendered by the client.
+ */
+const DEV_RENDER_TIMEOUT = 5_000;
 
 if (Meteor.isDevelopment) {
     let tsupWatcherRunning = false;
+    let clientReloadPending = false;
+    const pendingRenders = new Map<string, (result?: ServerRenderResult) => void>();
     DevConnectionLog.info('Starting Vite server...');
     
-    WebAppInternals.registerBoilerplateDataCallback('meteor-vite', async (request: HTTP.IncomingMessage, data: BoilerplateData) => {
-        const scripts = new ViteDevScripts(await getConfig());
-        data.dynamicBody = `${data.dynamicBody || ''}\n${await scripts.stringTemplate()}`;
+    WebAppInternals.registerBoilerplateDataCallback('meteor-vite', async (request: BoilerplateRequest, data: BoilerplateData) => {
+        const config = await getConfig();
+        const scripts = new ViteDevScripts(config, request.url.pathname || '/');
+        
+        if (config.ready && config.serverEntry) {
+            addRenderResult(data, await renderWithViteServer(request));
+        }
+        
+        data.dynamicBody = `${data.dynamicBody || ''}\n${await scripts.stringTemplate(getCustomSplashScreen())}`;
     });
     
     const viteServer = createWorkerFork({
@@ -28,8 +51,23 @@ if (Meteor.isDevelopment) {
                 DevConnectionLog.info(`Meteor-Vite ready for connections!`)
             }
         },
+        async workerStatus(status) {
+            await setConfig({ status });
+        },
+        renderResult({ requestId, result }) {
+            pendingRenders.get(requestId)?.(result);
+        },
+        /**
+         * Lazy-loaded packages imported through Vite are only available once Meteor has rebuilt the client with the
+         * packages we've auto-imported. Clients are reloaded once Meteor reports that the rebuild has completed.
+         */
         refreshNeeded() {
-            DevConnectionLog.info('Some lazy-loaded packages were imported, please refresh')
+            if (!requestClientRebuild()) {
+                DevConnectionLog.info('Some lazy-loaded packages were imported, please refresh');
+                return;
+            }
+            DevConnectionLog.info('Some lazy-loaded packages were imported. Rebuilding Meteor client to load them...');
+            clientReloadPending = true;
         },
         
         /**
@@ -61,10 +99,17 @@ if (Meteor.isDevelopment) {
     // Used to notify our Vite build plugin of things like the client bundle or Atmosphere packages being rebuilt.
     process.on('message', async (message) => {
         if (!isMeteorIPCMessage(message)) return;
-        const { baseUrl, ready } = await getConfig();
+        
+        if (clientReloadPending && ['client-refresh', 'webapp-reload-client'].includes(message.topic)) {
+            DevConnectionLog.info('Meteor client rebuilt. Reloading connected clients...');
+            clientReloadPending = false;
+            reloadClients();
+        }
+        
+        const { serverUrl, ready } = await getConfig();
         if (!ready) return;
         
-        await fetch(`${baseUrl}/__meteor__/ipc-message`, {
+        await fetch(`${serverUrl}/__meteor__/ipc-message`, {
             method: 'POST',
             body: JSON.stringify(message),
         }).catch((error) => {
@@ -72,23 +117,152 @@ if (Meteor.isDevelopment) {
         })
     })
     
-    Meteor.publish(ViteConnection.publication, () => {
-        return MeteorViteConfig.find(ViteConnection.configSelector);
+    if (getProjectPackageJson().meteor.vite?.devServerProxy) {
+        setupDevServerProxy();
+    }
+    
+    /**
+     * Have the Vite dev server render the requested page using the serverEntry.
+     * Failures are logged by the Vite server, leaving the page to be rendered by the client. The same goes for when
+     * the Vite server is running in the background or doesn't respond in time.
+     */
+    function renderWithViteServer(request: BoilerplateRequest) {
+        if (!viteServer.child.connected) {
+            return;
+        }
+        
+        const requestId = randomUUID();
+        
+        return new Promise<ServerRenderResult | undefined>((resolve) => {
+            const timeout = setTimeout(() => {
+                DevConnectionLog.error(`Vite server did not render ${request.url.path} within ${DEV_RENDER_TIMEOUT}ms. Leaving it to the client...`);
+                complete();
+            }, DEV_RENDER_TIMEOUT);
+            
+            const complete = (result?: ServerRenderResult) => {
+                clearTimeout(timeout);
+                pendingRenders.delete(requestId);
+                resolve(result);
+            }
+            
+            pendingRenders.set(requestId, complete);
+            viteServer.call({
+                method: 'vite.server.render',
+                params: [{ requestId, context: getRenderContext(request) }],
+            });
+        });
+    }
+    
+    WebApp.connectHandlers.use(ViteConnection.endpoints.config, async (req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(await getConfig()));
     });
     
-    Meteor.methods({
-        [ViteConnection.methods.refreshConfig]() {
+    WebApp.connectHandlers.use(ViteConnection.endpoints.configEvents, async (req, res) => {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+        
+        const send = (config: RuntimeConfig) => res.write(`data: ${JSON.stringify(config)}\n\n`);
+        const listeners = [
+            onConfigChange(send),
+            onClientReload(() => res.write(`event: reload\ndata: {}\n\n`)),
+        ];
+        req.on('close', () => listeners.forEach((removeListener) => removeListener()));
+        
+        const config = await getConfig();
+        send(config);
+        
+        // Failsafe in case we've missed the config from a Vite server that's already running.
+        if (!config.ready && config.age > 5_000) {
             DevConnectionLog.info('Refreshing configuration from Vite dev server...')
             viteServer.call({
                 method: 'vite.server.getConfig',
                 params: [],
             });
-            return getConfig();
         }
-    })
+    });
+}
+
+if (Meteor.isProduction) {
+    setupBundleAssets();
+}
+
+/**
+ * Meteor only rebuilds when the content of a file it's watching changes. To have Meteor rebuild the client after
+ * auto-importing lazy-loaded packages, we update the client rebuild module the build plugin adds to the client.
+ * Needs to match the path of the `CLIENT_REBUILD_MODULE` written by the build plugin.
+ * @returns Whether a rebuild was requested.
+ */
+function requestClientRebuild() {
+    const rebuildModule = Path.join(cwd, 'client', '_vite-bundle', 'client-rebuild.js._vite-bundle.tmp');
+    
+    try {
+        FS.writeFileSync(rebuildModule, `// Last client rebuild requested by vite-bundler: ${new Date().toISOString()}\n`);
+        return true;
+    } catch (error) {
+        DevConnectionLog.error(`Unable to update client rebuild module: ${rebuildModule}`, error);
+        return false;
+    }
+}
+
+/**
+ * Load the splash screen specified with `meteor.vite.splashScreen` in the project's package.json.
+ */
+function getCustomSplashScreen() {
+    const splashScreen = getProjectPackageJson().meteor.vite?.splashScreen;
+    
+    if (!splashScreen) {
+        return;
+    }
+    
+    try {
+        return FS.readFileSync(Path.join(cwd, splashScreen), 'utf-8');
+    } catch (error) {
+        DevConnectionLog.error(`Unable to load custom splash screen: ${splashScreen}`, error);
+    }
+}
+
+/**
+ * Render pages using the server entry from the Vite production bundle.
+ * Called by the module generated by vite-bundler, which Meteor loads through your server mainModule.
+ * Render errors are only logged, leaving the page to be rendered by the client like we do in development.
+ */
+export function registerServerEntry(entry: ServerEntryModule) {
+    WebAppInternals.registerBoilerplateDataCallback('meteor-vite:ssr', async (request: BoilerplateRequest, data: BoilerplateData) => {
+        try {
+            addRenderResult(data, await entry.render(getRenderContext(request)));
+        } catch (error) {
+            DevConnectionLog.error(`Failed to render ${request.url.path} on the server. Leaving it to the client...`, error);
+        }
+    });
+}
+
+function getRenderContext(request: BoilerplateRequest): ServerRenderContext {
+    return {
+        url: request.url.path || '/',
+        headers: request.headers,
+    };
+}
+
+function addRenderResult(data: BoilerplateData, result: ServerRenderResult | void) {
+    if (!result) {
+        return;
+    }
+    
+    data.dynamicHead = `${data.dynamicHead || ''}\n${result.head || ''}`;
+    data.dynamicBody = `${data.dynamicBody || ''}\n${result.body || ''}`;
+}
+
+interface BoilerplateRequest {
+    url: UrlWithParsedQuery;
+    headers: HTTP.IncomingHttpHeaders;
 }
 
 interface BoilerplateData {
+    dynamicHead?: string;
     dynamicBody?: string;
     additionalStaticJs: [contents: string, pathname: string][];
     inline?: string;